@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listAliases, saveAlias } from "@/lib/aliasStore";
+
+/** List remembered area and cuisine aliases: GET /api/aliases */
+export async function GET() {
+  try {
+    const aliases = await listAliases();
+    return NextResponse.json({ aliases });
+  } catch (error) {
+    console.error("List aliases error:", error);
+    return NextResponse.json(
+      { error: "Failed to list aliases" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Remember what an input means: POST /api/aliases { slot: "area" | "cuisine", input, value } */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { slot, input, value } = body;
+
+    if ((slot !== "area" && slot !== "cuisine") || typeof input !== "string" || typeof value !== "string") {
+      return NextResponse.json(
+        { error: "Missing slot, input or value" },
+        { status: 400 }
+      );
+    }
+
+    const alias = await saveAlias(slot, input, value);
+    if (!alias) {
+      return NextResponse.json(
+        { error: `Unknown ${slot} or empty input` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ alias }, { status: 201 });
+  } catch (error) {
+    console.error("Save alias error:", error);
+    return NextResponse.json(
+      { error: "Failed to save alias" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBooking } from "@/lib/bookingStore";
+import { getRestaurantById } from "@/lib/availability";
+import { buildBookingIcs } from "@/lib/ics";
+
+/** Download a booking as a calendar event: GET /api/bookings/:id/ics */
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const booking = await getBooking(params.id);
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    }
+
+    const restaurant = getRestaurantById(booking.restaurantId);
+    if (!restaurant) {
+      return NextResponse.json({ error: "Restaurant not found" }, { status: 404 });
+    }
+
+    const ics = buildBookingIcs(booking, restaurant);
+    if (!ics) {
+      return NextResponse.json(
+        { error: "Booking date or time isn't in yyyy-mm-dd / HH:mm format" },
+        { status: 422 }
+      );
+    }
+
+    return new NextResponse(ics, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="booking-${booking.confirmationId || booking.id}.ics"`,
+      },
+    });
+  } catch (error) {
+    console.error("Booking ICS error:", error);
+    return NextResponse.json(
+      { error: "Failed to build calendar file" },
+      { status: 500 }
+    );
+  }
+}
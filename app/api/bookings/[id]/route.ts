@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBooking, cancelBooking, modifyBooking } from "@/lib/bookingStore";
+import { getBookingFieldsError } from "@/lib/availability";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/** Get a booking: GET /api/bookings/:id */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const booking = await getBooking(params.id);
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    }
+    return NextResponse.json({ booking });
+  } catch (error) {
+    console.error("Get booking error:", error);
+    return NextResponse.json(
+      { error: "Failed to get booking" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Modify date, time, party size or notes: PATCH /api/bookings/:id */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await request.json();
+    const { date, time, partySize, notes } = body;
+
+    if (date === undefined && time === undefined && partySize === undefined && notes === undefined) {
+      return NextResponse.json(
+        { error: "Nothing to change: pass date, time, partySize or notes" },
+        { status: 400 }
+      );
+    }
+
+    const booking = await getBooking(params.id);
+    if (!booking) {
+      return NextResponse.json({ error: "not_found" }, { status: 404 });
+    }
+    const fieldsError = getBookingFieldsError(booking.restaurantId, { date, time, partySize });
+    if (fieldsError) {
+      return NextResponse.json({ error: fieldsError }, { status: 400 });
+    }
+
+    const write = await modifyBooking(params.id, {
+      date,
+      time,
+      partySize: partySize !== undefined ? Number(partySize) : undefined,
+      notes,
+    });
+
+    if (!write.ok) {
+      const status = write.error === "not_found" ? 404 : 409;
+      return NextResponse.json({ error: write.error, result: write.result }, { status });
+    }
+
+    return NextResponse.json({ booking: write.booking, result: write.result });
+  } catch (error) {
+    console.error("Modify booking error:", error);
+    return NextResponse.json(
+      { error: "Failed to modify booking" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Cancel a booking: DELETE /api/bookings/:id */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const booking = await cancelBooking(params.id);
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    }
+    return NextResponse.json({ booking });
+  } catch (error) {
+    console.error("Cancel booking error:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel booking" },
+      { status: 500 }
+    );
+  }
+}
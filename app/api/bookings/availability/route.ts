@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listBookings } from "@/lib/bookingStore";
+import { checkAvailability, canJoinWaitlist, findNearbySlots, getRestaurantById } from "@/lib/availability";
+
+/** Check a slot: GET /api/bookings/availability?restaurantId=...&date=...&time=...&partySize=... */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const restaurantId = params.get("restaurantId");
+    const date = params.get("date");
+    const time = params.get("time");
+    const partySize = Number(params.get("partySize"));
+
+    if (!restaurantId || !date || !time || !partySize) {
+      return NextResponse.json(
+        { error: "Missing restaurantId, date, time or partySize" },
+        { status: 400 }
+      );
+    }
+
+    const restaurant = getRestaurantById(restaurantId);
+    if (!restaurant) {
+      return NextResponse.json({ error: "Restaurant not found" }, { status: 404 });
+    }
+
+    const bookings = await listBookings();
+    const availability = checkAvailability(restaurant, date, time, partySize, bookings);
+    const nearbySlots =
+      availability.status === "available" ? [] : findNearbySlots(restaurant, date, time, partySize, bookings);
+
+    return NextResponse.json({
+      status: availability.status,
+      seatsLeft: availability.seatsLeft,
+      nearbySlots,
+      waitlistOpen: canJoinWaitlist(availability, partySize),
+    });
+  } catch (error) {
+    console.error("Availability error:", error);
+    return NextResponse.json(
+      { error: "Failed to check availability" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findBookingByConfirmationId } from "@/lib/bookingStore";
+import { parseConfirmationCode } from "@/lib/confirmationCode";
+
+/** Resolve a confirmation code for support: GET /api/bookings/lookup?code=BK-D261201-003K */
+export async function GET(request: NextRequest) {
+  try {
+    const code = request.nextUrl.searchParams.get("code");
+
+    if (!code) {
+      return NextResponse.json({ error: "Missing code" }, { status: 400 });
+    }
+
+    const parsed = parseConfirmationCode(code);
+    if (!parsed.ok) {
+      // 422: "format" means it isn't shaped like a code, "checksum" means a character was mistyped
+      return NextResponse.json(
+        {
+          error:
+            parsed.error === "checksum"
+              ? "Code failed its check character (likely a typo)"
+              : "Not a confirmation code",
+          reason: parsed.error,
+        },
+        { status: 422 }
+      );
+    }
+
+    const found = await findBookingByConfirmationId(parsed.code);
+    if (!found) {
+      return NextResponse.json({ error: "No booking with that code", code: parsed.code }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      code: parsed.code,
+      // false when the code was replaced by a later change; booking.confirmationId is the current one
+      current: found.current,
+      booking: found.booking,
+    });
+  } catch (error) {
+    console.error("Booking lookup error:", error);
+    return NextResponse.json(
+      { error: "Failed to look up booking" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listBookings, createBooking } from "@/lib/bookingStore";
+import { isAccount } from "@/lib/memory";
+import { getBookingFieldsError } from "@/lib/availability";
+
+/** List bookings for an account: GET /api/bookings?account=danny */
+export async function GET(request: NextRequest) {
+  try {
+    const account = request.nextUrl.searchParams.get("account");
+
+    if (account !== null && !isAccount(account)) {
+      return NextResponse.json({ error: "Unknown account" }, { status: 400 });
+    }
+
+    const bookings = await listBookings(account ?? undefined);
+    return NextResponse.json({ bookings });
+  } catch (error) {
+    console.error("List bookings error:", error);
+    return NextResponse.json(
+      { error: "Failed to list bookings" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Create a booking: POST /api/bookings */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { account, restaurantId, date, time, partySize, notes, request: activeRequest } = body;
+
+    if (!isAccount(account) || !restaurantId || !date || !time || !partySize) {
+      return NextResponse.json(
+        { error: "Missing account, restaurantId, date, time or partySize" },
+        { status: 400 }
+      );
+    }
+    const fieldsError = getBookingFieldsError(restaurantId, { date, time, partySize });
+    if (fieldsError) {
+      return NextResponse.json({ error: fieldsError }, { status: 400 });
+    }
+
+    const write = await createBooking({
+      account,
+      restaurantId,
+      date,
+      time,
+      partySize: Number(partySize),
+      notes: notes || undefined,
+      request: activeRequest || undefined,
+    });
+
+    if (!write.ok) {
+      // 409: the slot can't take this party; result carries the reason and nearby alternatives
+      return NextResponse.json({ error: write.error, result: write.result }, { status: 409 });
+    }
+
+    return NextResponse.json({ booking: write.booking, result: write.result }, { status: 201 });
+  } catch (error) {
+    console.error("Create booking error:", error);
+    return NextResponse.json(
+      { error: "Failed to create booking" },
+      { status: 500 }
+    );
+  }
+}
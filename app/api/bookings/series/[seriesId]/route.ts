@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listBookingSeries, cancelBookingSeries } from "@/lib/bookingStore";
+
+interface RouteContext {
+  params: { seriesId: string };
+}
+
+/** List every occurrence of a series: GET /api/bookings/series/:seriesId */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const bookings = await listBookingSeries(params.seriesId);
+    if (bookings.length === 0) {
+      return NextResponse.json({ error: "Series not found" }, { status: 404 });
+    }
+    return NextResponse.json({ bookings });
+  } catch (error) {
+    console.error("Get booking series error:", error);
+    return NextResponse.json(
+      { error: "Failed to get booking series" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Cancel every remaining occurrence of a series: DELETE /api/bookings/series/:seriesId */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const cancelled = await cancelBookingSeries(params.seriesId);
+    if (!cancelled) {
+      return NextResponse.json({ error: "Series not found" }, { status: 404 });
+    }
+    return NextResponse.json({ bookings: cancelled });
+  } catch (error) {
+    console.error("Cancel booking series error:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel booking series" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createBookingSeries } from "@/lib/bookingStore";
+import { isAccount } from "@/lib/memory";
+import { getBookingFieldsError } from "@/lib/availability";
+import { MAX_OCCURRENCES } from "@/lib/recurrence";
+import type { RecurrenceRule } from "@/types";
+
+// Every occurrence is booked inside the store's write lock, so a series stays as short as the chat allows
+function isRecurrenceRule(value: unknown): value is RecurrenceRule {
+  const rule = value as RecurrenceRule | null;
+  return (
+    !!rule &&
+    (rule.freq === "WEEKLY" || rule.freq === "MONTHLY") &&
+    ["MO", "TU", "WE", "TH", "FR", "SA", "SU"].includes(rule.byDay) &&
+    Number.isInteger(rule.interval) &&
+    rule.interval >= 1 &&
+    Number.isInteger(rule.count) &&
+    rule.count >= 1 &&
+    rule.count <= MAX_OCCURRENCES &&
+    (rule.bySetPos === undefined || rule.bySetPos === -1 || [1, 2, 3, 4, 5].includes(rule.bySetPos))
+  );
+}
+
+/** Create a recurring booking, one booking per occurrence: POST /api/bookings/series */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { account, restaurantId, date, time, partySize, notes, recurrence, request: activeRequest } = body;
+
+    if (!isAccount(account) || !restaurantId || !date || !time || !partySize) {
+      return NextResponse.json(
+        { error: "Missing account, restaurantId, date, time or partySize" },
+        { status: 400 }
+      );
+    }
+    const fieldsError = getBookingFieldsError(restaurantId, { date, time, partySize });
+    if (fieldsError) {
+      return NextResponse.json({ error: fieldsError }, { status: 400 });
+    }
+    if (!isRecurrenceRule(recurrence)) {
+      return NextResponse.json({ error: "Invalid recurrence" }, { status: 400 });
+    }
+
+    const write = await createBookingSeries({
+      account,
+      restaurantId,
+      date,
+      time,
+      partySize: Number(partySize),
+      notes: notes || undefined,
+      request: activeRequest || undefined,
+      recurrence,
+    });
+
+    if (!write.ok) {
+      // 409: no occurrence could be booked; skipped carries the reason for each date
+      return NextResponse.json({ error: write.error, skipped: write.skipped }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { seriesId: write.seriesId, bookings: write.bookings, skipped: write.skipped },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Create booking series error:", error);
+    return NextResponse.json(
+      { error: "Failed to create booking series" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAccount } from "@/lib/memory";
+import { reduceTurn, getTurnReply } from "@/lib/newConversation";
+import { fileConversationStore } from "@/lib/conversationFileStore";
+import { createServerDialogueDeps } from "@/lib/serverDialogueDeps";
+
+/** Run one chat turn for an account, with state kept on the server: POST /api/chat { account, text } */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { account, text } = body;
+
+    if (!isAccount(account) || typeof text !== "string" || !text.trim()) {
+      return NextResponse.json({ error: "Missing account or text" }, { status: 400 });
+    }
+
+    const state = await fileConversationStore.load(account);
+    const result = await reduceTurn(state, text.trim(), createServerDialogueDeps(account));
+    await fileConversationStore.save(account, result.state);
+
+    return NextResponse.json(getTurnReply(result));
+  } catch (error) {
+    console.error("Chat error:", error);
+    return NextResponse.json(
+      { error: "Failed to process message" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAccount } from "@/lib/memory";
+import { createTurnStream } from "@/lib/chatStream";
+import { isConversationFlow } from "@/lib/dialoguePipeline";
+import type { DialogueState } from "@/types";
+
+function isDialogueState(value: unknown): value is DialogueState {
+  const state = value as DialogueState | null;
+  return !!state && !!state.request && Array.isArray(state.history) && isConversationFlow(state.flow);
+}
+
+/**
+ * Run one chat turn as server-sent events: POST /api/chat/stream { account, text, state? }
+ * Events: typing { stage } per pipeline stage, delta { text } per piece of the reply,
+ * then done (the /api/chat payload) or error (see lib/chatStream.ts). Without state the server
+ * conversation is used; with state (the browser's) nothing is saved and done carries the new state back.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { account, text, state: clientState } = body;
+
+    if (!isAccount(account) || typeof text !== "string" || !text.trim()) {
+      return NextResponse.json({ error: "Missing account or text" }, { status: 400 });
+    }
+    if (clientState !== undefined && !isDialogueState(clientState)) {
+      return NextResponse.json({ error: "Invalid state" }, { status: 400 });
+    }
+
+    const stream = createTurnStream({ account, text: text.trim(), state: clientState });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    console.error("Chat stream error:", error);
+    return NextResponse.json(
+      { error: "Failed to process message" },
+      { status: 500 }
+    );
+  }
+}
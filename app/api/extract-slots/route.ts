@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getOpenAIClient } from "@/lib/openai";
-import { getAvailableCuisines } from "@/lib/restaurants";
-import { getAvailableAreas } from "@/lib/parser";
+import { runPrompt } from "@/lib/promptRegistry";
+import type { SlotExtraction } from "@/lib/prompts";
 import type { Slots } from "@/types";
 
 interface ExtractSlotsRequest {
@@ -14,6 +13,7 @@ interface ExtractSlotsRequest {
 interface ExtractSlotsResponse {
   slots: Partial<Slots>;
   confidence: number;
+  promptVersion: number;
 }
 
 /**
@@ -130,130 +130,7 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    const openai = getOpenAIClient();
-    const knownAreas = getAvailableAreas();
-    const knownCuisines = getAvailableCuisines();
-
-    const outputSchema = {
-      type: "object",
-      properties: {
-        area: {
-          type: "string",
-          nullable: true,
-          description: `The area/location from: ${knownAreas.join(", ")}. Extract the most specific match. For example, "dubai marina" should map to "Dubai Marina" not just "Dubai". Return null if no area is mentioned.`,
-          enum: knownAreas.length > 0 ? knownAreas : undefined,
-        },
-        mealTime: {
-          type: "string",
-          nullable: true,
-          enum: ["breakfast", "lunch", "dinner", "coffee", "drinks", "late-night"],
-          description: "The meal time. Interpret time expressions contextually (e.g., '8pm', 'evening' -> 'dinner', 'noon' -> 'lunch'). Return null if not mentioned.",
-        },
-        partySize: {
-          type: "number",
-          nullable: true,
-          description: "Number of people (1-20). Extract from phrases like 'for three people', 'for 3', 'party of 4', etc. Return null if not mentioned.",
-          minimum: 1,
-          maximum: 20,
-        },
-        budget: {
-          type: "string",
-          nullable: true,
-          enum: ["cheap", "mid", "high"],
-          description: "Budget level. ONLY extract if budget is EXPLICITLY mentioned. Interpret: 'high budget', 'expensive', 'upscale', 'premium' -> 'high'; 'low budget', 'cheap', 'affordable' -> 'cheap'; 'mid', 'medium', 'moderate' -> 'mid'. Return null if budget is NOT explicitly mentioned in the message.",
-        },
-        cravingCuisines: {
-          type: "array",
-          items: {
-            type: "string",
-            enum: knownCuisines.length > 0 ? knownCuisines : undefined,
-          },
-          description: `Array of cuisine types from: ${knownCuisines.join(", ")}. Extract from mentions like 'italian restaurant', 'i want sushi', 'chinese food', etc. Return empty array if not mentioned.`,
-        },
-        vibe: {
-          type: "string",
-          nullable: true,
-          enum: ["romantic", "lively", "quiet", "outdoor", "family", "business"],
-          description: "Atmosphere/vibe. ONLY extract if vibe/atmosphere is EXPLICITLY mentioned. Interpret: 'romantic', 'intimate' -> 'romantic'; 'lively', 'casual', 'fun' -> 'lively'; 'quiet', 'peaceful' -> 'quiet'; etc. Return null if vibe is NOT explicitly mentioned in the message.",
-        },
-        dietary: {
-          type: "array",
-          items: {
-            type: "string",
-          },
-          description: "Dietary requirements like 'vegetarian', 'vegan', 'gluten-free', 'halal', etc. Return empty array if not mentioned.",
-        },
-      },
-      required: ["area", "mealTime", "partySize", "budget", "cravingCuisines", "vibe", "dietary"],
-      additionalProperties: false,
-    };
-
-    // Build question-specific guidance
-    let questionGuidance = "";
-    if (question && questionType) {
-      questionGuidance = `\n\nIMPORTANT CONTEXT: The user is answering this specific question:
-Question: "${question}"
-Question Type: ${questionType}
-
-Focus on extracting the answer to this question, but also extract any other restaurant-related information the user might provide.
-
-${questionType === "area" ? `The user is being asked for a LOCATION/AREA. Extract the most specific area match from: ${knownAreas.join(", ")}. For example, "dubai marina" should map to "Dubai Marina" not just "Dubai".` : ""}
-${questionType === "budget" ? `The user is being asked for a BUDGET LEVEL. Interpret phrases like "high budget", "expensive", "upscale", "premium" -> "high"; "cheap", "affordable", "low budget" -> "cheap"; "mid", "medium", "moderate" -> "mid".` : ""}
-${questionType === "mealTime" ? `The user is being asked for a MEAL TIME. Interpret time expressions contextually (e.g., "8pm", "evening" -> "dinner"; "noon", "midday", "lunchtime" -> "lunch"; "morning", "breakfast time" -> "breakfast").` : ""}
-${questionType === "cuisine" ? `The user is being asked for a CUISINE TYPE. Interpret food names contextually (e.g., "burgers" -> "American", "pizza" -> "Italian", "sushi" -> "Japanese"). Available cuisines: ${knownCuisines.join(", ")}.` : ""}
-${questionType === "vibe" ? `The user is being asked for a VIBE/ATMOSPHERE. Interpret descriptions contextually (e.g., "romantic", "intimate" -> "romantic"; "lively", "casual", "fun" -> "lively"; "quiet", "peaceful" -> "quiet").` : ""}
-${questionType === "partySize" ? `The user is being asked for NUMBER OF PEOPLE. Extract from phrases like "for three people", "party of 4", "just me", "two of us", etc.` : ""}
-${questionType === "dietary" ? `The user is being asked for DIETARY REQUIREMENTS. Extract terms like "vegetarian", "vegan", "gluten-free", "halal", etc.` : ""}`;
-    }
-
-    const systemPrompt = `You are a helpful restaurant assistant extracting information from user messages.
-
-Current known information: ${JSON.stringify(currentSlots, null, 2)}
-Available areas: ${knownAreas.join(", ")}
-Available cuisines: ${knownCuisines.join(", ")}${questionGuidance}
-
-Your task:
-1. Extract ONLY restaurant-related information that is EXPLICITLY mentioned in the user's message
-2. Use natural language understanding to interpret what the user means, but ONLY if they are clearly providing information
-3. Map to the exact values from the available lists
-4. For areas: Use the MOST SPECIFIC match (e.g., "dubai marina" -> "Dubai Marina", not just "Dubai")
-5. For budgets: Interpret phrases like "high budget", "expensive", "upscale" -> "high"; "cheap", "affordable", "low budget" -> "cheap". ONLY extract if budget is explicitly mentioned.
-6. For meal times: Interpret times and phrases (e.g., "8pm", "evening" -> "dinner"; "noon", "lunchtime" -> "lunch"). ONLY extract if time/meal is explicitly mentioned.
-7. CRITICAL: Do NOT infer or assume values. Return null/empty for ALL fields if the message contains only greetings (like "hello", "hi", "hey"), casual responses, or does not contain explicit restaurant-related information.
-8. Do NOT overwrite existing values in currentSlots unless the user explicitly mentions changing them
-9. Examples of messages that should return ALL null/empty values: "hello", "hi", "hey", "ok", "sure", "thanks", "cool"
-
-Be precise and use the exact enum values from the schema. Only extract what is explicitly stated.`;
-
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: systemPrompt,
-        },
-        {
-          role: "user",
-          content: userMessage,
-        },
-      ],
-      response_format: {
-        type: "json_schema",
-        json_schema: {
-          name: "slot_extraction",
-          strict: true,
-          schema: outputSchema,
-        },
-      },
-      temperature: 0.3,
-    });
-
-    const content = completion.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("No response from OpenAI");
-    }
-
-    const result = JSON.parse(content) as any;
+    const { data: result, prompt } = await runPrompt<SlotExtraction>("slot_extraction", { userMessage, currentSlots, question, questionType });
 
     // Build the slots object, only including non-null/non-empty values
     const slots: Partial<Slots> = {};
@@ -289,12 +166,14 @@ Be precise and use the exact enum values from the schema. Only extract what is e
       return NextResponse.json({
         slots: validatedSlots,
         confidence: 0.5, // Lower confidence due to validation rejection
+        promptVersion: prompt.version,
       });
     }
 
     const response: ExtractSlotsResponse = {
       slots,
       confidence: 0.9, // GPT extraction is generally high confidence
+      promptVersion: prompt.version,
     };
 
     return NextResponse.json(response);
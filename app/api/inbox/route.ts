@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { drainInbox } from "@/lib/inboxStore";
+import { isAccount } from "@/lib/memory";
+
+/** Take pending assistant messages for an account: POST /api/inbox { account } */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { account } = body;
+
+    if (!isAccount(account)) {
+      return NextResponse.json({ error: "Unknown account" }, { status: 400 });
+    }
+
+    const messages = await drainInbox(account);
+    return NextResponse.json({ messages });
+  } catch (error) {
+    console.error("Inbox error:", error);
+    return NextResponse.json(
+      { error: "Failed to read inbox" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { normalizeToDB } from "@/lib/gptPrompts";
+import { normalizeWithAliases } from "@/lib/aliasStore";
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,7 +13,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const result = await normalizeToDB(
+    const result = await normalizeWithAliases(
       rawArea || null,
       rawCuisine || null,
       supportedAreas,
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { getPromptIds, getPromptVersions, getPromptServing, listDecisions } from "@/lib/promptRegistry";
+
+/** List prompts with their versions, how they're served and how many recorded answers each version gave: GET /api/prompts */
+export async function GET() {
+  try {
+    const decisions = await listDecisions();
+    const prompts = getPromptIds().map((id) => ({
+      id,
+      serving: getPromptServing(id),
+      versions: getPromptVersions(id).map((prompt) => ({
+        version: prompt.version,
+        description: prompt.description,
+        fixtures: prompt.fixtures.length,
+        decisions: decisions.filter((d) => d.prompt === id && d.version === prompt.version).length,
+      })),
+    }));
+    return NextResponse.json({ prompts });
+  } catch (error) {
+    console.error("List prompts error:", error);
+    return NextResponse.json(
+      { error: "Failed to list prompts" },
+      { status: 500 }
+    );
+  }
+}
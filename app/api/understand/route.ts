@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { understandWithAliases } from "@/lib/aliasStore";
+
+/** Classify, validate and normalize one message in a single model call: POST /api/understand */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userMessage, pendingSlot, currentRequest, supportedAreas, supportedCuisines } = body;
+
+    if (!userMessage || typeof userMessage !== "string") {
+      return NextResponse.json(
+        { error: "Missing or invalid userMessage" },
+        { status: 400 }
+      );
+    }
+    if (!Array.isArray(supportedAreas) || !Array.isArray(supportedCuisines) || !currentRequest) {
+      return NextResponse.json(
+        { error: "Missing currentRequest, supportedAreas or supportedCuisines" },
+        { status: 400 }
+      );
+    }
+
+    const result = await understandWithAliases({
+      userMessage,
+      pendingSlot: pendingSlot ?? null,
+      currentRequest,
+      supportedAreas,
+      supportedCuisines,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Understand turn error:", error);
+    return NextResponse.json(
+      { error: "Failed to understand message" },
+      { status: 500 }
+    );
+  }
+}
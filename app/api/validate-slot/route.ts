@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { validateSlot } from "@/lib/gptPrompts";
+import { validateWithAliases } from "@/lib/aliasStore";
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,7 +13,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const result = await validateSlot(
+    const result = await validateWithAliases(
       slotName as any,
       userReply,
       supportedChoices
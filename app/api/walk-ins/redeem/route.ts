@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { redeemWalkIn } from "@/lib/walkInStore";
+
+const ERROR_STATUS = {
+  not_found: 404,
+  no_code: 422,
+  code_mismatch: 422,
+  already_redeemed: 409,
+  expired: 410,
+} as const;
+
+/** Venue marks a discount code as used: POST /api/walk-ins/redeem { reference, code } */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { reference, code } = body;
+
+    if (!reference || !code) {
+      return NextResponse.json(
+        { error: "Missing reference or code" },
+        { status: 400 }
+      );
+    }
+
+    const result = await redeemWalkIn(String(reference), String(code));
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: ERROR_STATUS[result.error] });
+    }
+
+    return NextResponse.json({ intent: result.intent });
+  } catch (error) {
+    console.error("Redeem walk-in error:", error);
+    return NextResponse.json(
+      { error: "Failed to redeem code" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listWalkIns, createWalkIn, getWalkInStatus } from "@/lib/walkInStore";
+import { isAccount } from "@/lib/memory";
+
+/** List walk-in intents: GET /api/walk-ins?account=danny */
+export async function GET(request: NextRequest) {
+  try {
+    const account = request.nextUrl.searchParams.get("account");
+
+    if (account !== null && !isAccount(account)) {
+      return NextResponse.json({ error: "Unknown account" }, { status: 400 });
+    }
+
+    const now = Date.now();
+    const walkIns = (await listWalkIns(account ?? undefined)).map((intent) => ({
+      ...intent,
+      status: getWalkInStatus(intent, now),
+    }));
+    return NextResponse.json({ walkIns });
+  } catch (error) {
+    console.error("List walk-ins error:", error);
+    return NextResponse.json(
+      { error: "Failed to list walk-ins" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Record a walk-in intent: POST /api/walk-ins { account, restaurantId, date } */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { account, restaurantId, date } = body;
+
+    if (!isAccount(account) || !restaurantId || !date) {
+      return NextResponse.json(
+        { error: "Missing account, restaurantId or date" },
+        { status: 400 }
+      );
+    }
+
+    const result = await createWalkIn({ account, restaurantId, date });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error === "bookable" ? "Restaurant takes bookings" : "Restaurant not found" },
+        { status: result.error === "bookable" ? 409 : 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { intent: result.intent, withheld: result.withheld },
+      { status: result.reused ? 200 : 201 }
+    );
+  } catch (error) {
+    console.error("Create walk-in error:", error);
+    return NextResponse.json(
+      { error: "Failed to record walk-in" },
+      { status: 500 }
+    );
+  }
+}
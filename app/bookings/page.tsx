@@ -0,0 +1,361 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { getAccount } from "@/lib/memory";
+import { getAccountDisplay, accountFromDisplay } from "@/lib/storage";
+import { RESTAURANTS } from "@/lib/restaurants";
+import {
+  listBookingsClient,
+  cancelBookingClient,
+  cancelBookingSeriesClient,
+  modifyBookingClient,
+} from "@/lib/bookingsClient";
+import { isUpcoming } from "@/lib/bookingManagement";
+import { getBookingIcsPath } from "@/lib/ics";
+import { parseGroupNotes } from "@/lib/groupBooking";
+import { describeRecurrence } from "@/lib/recurrence";
+import type { AccountDisplay, Booking } from "@/types";
+
+function formatPrice(price: "low" | "mid" | "high"): string {
+  return price === "low" ? "$" : price === "mid" ? "$$" : "$$$";
+}
+
+export default function BookingsPage() {
+  const [selectedAccount, setSelectedAccount] = useState<AccountDisplay>("Danny");
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValues, setEditValues] = useState({ date: "", time: "", partySize: "" });
+  const [editError, setEditError] = useState<string | null>(null);
+
+  // Default the filter to the account chosen on the home page
+  useEffect(() => {
+    const current = getAccount();
+    if (current) {
+      setSelectedAccount(getAccountDisplay(current));
+    }
+  }, []);
+
+  const loadBookings = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setBookings(await listBookingsClient(accountFromDisplay(selectedAccount)));
+    } catch (err) {
+      console.error("Load bookings error:", err);
+      setError("Couldn't load bookings. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedAccount]);
+
+  useEffect(() => {
+    loadBookings();
+  }, [loadBookings]);
+
+  const upcoming = bookings
+    .filter((b) => isUpcoming(b))
+    .sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`));
+  const past = bookings
+    .filter((b) => !isUpcoming(b))
+    .sort((a, b) => `${b.date} ${b.time}`.localeCompare(`${a.date} ${a.time}`));
+
+  const handleCancel = async (booking: Booking) => {
+    if (!confirm("Cancel this booking?")) return;
+    try {
+      await cancelBookingClient(booking.id);
+      await loadBookings();
+    } catch (err) {
+      console.error("Cancel booking error:", err);
+      setError("Couldn't cancel the booking. Please try again.");
+    }
+  };
+
+  const handleCancelSeries = async (booking: Booking) => {
+    if (!booking.seriesId || !confirm("Cancel every remaining date of this series?")) return;
+    try {
+      await cancelBookingSeriesClient(booking.seriesId);
+      await loadBookings();
+    } catch (err) {
+      console.error("Cancel booking series error:", err);
+      setError("Couldn't cancel the series. Please try again.");
+    }
+  };
+
+  const startEditing = (booking: Booking) => {
+    setEditingId(booking.id);
+    setEditValues({ date: booking.date, time: booking.time, partySize: String(booking.partySize) });
+    setEditError(null);
+  };
+
+  const handleModify = async (booking: Booking) => {
+    const changes: { date?: string; time?: string; partySize?: number } = {};
+    if (editValues.date && editValues.date !== booking.date) changes.date = editValues.date;
+    if (editValues.time && editValues.time !== booking.time) changes.time = editValues.time;
+    if (editValues.partySize && Number(editValues.partySize) !== booking.partySize) {
+      changes.partySize = Number(editValues.partySize);
+    }
+    if (Object.keys(changes).length === 0) {
+      setEditingId(null);
+      return;
+    }
+
+    try {
+      const write = await modifyBookingClient(booking.id, changes);
+      if (!write.ok) {
+        const alternatives = write.result?.alternatives || [];
+        setEditError(
+          "That slot isn't available." +
+            (alternatives.length > 0 ? ` Open times that day: ${alternatives.join(", ")}.` : "")
+        );
+        return;
+      }
+      setEditingId(null);
+      await loadBookings();
+    } catch (err) {
+      console.error("Modify booking error:", err);
+      setEditError("Couldn't update the booking. Please try again.");
+    }
+  };
+
+  const renderBooking = (booking: Booking, canManage: boolean) => {
+    const restaurant = RESTAURANTS.find((r) => r.id === booking.restaurantId);
+    const isEditing = editingId === booking.id;
+    const group = parseGroupNotes(booking.notes);
+
+    return (
+      <div key={booking.id} className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="font-semibold text-gray-800">{restaurant?.name || "Unknown restaurant"}</h3>
+            {restaurant && (
+              <p className="text-sm text-gray-600">
+                {restaurant.area}, {restaurant.city} · {formatPrice(restaurant.price)}
+              </p>
+            )}
+            <p className="text-sm text-gray-800 mt-2">
+              {booking.date} at {booking.time} · {booking.partySize} {booking.partySize === 1 ? "person" : "people"}
+            </p>
+            {booking.recurrence && (
+              <p className="text-xs text-[#128C7E] mt-1">Repeats {describeRecurrence(booking.recurrence)}</p>
+            )}
+            {group ? (
+              <div className="text-sm text-gray-600 mt-1">
+                <p>Dietary needs:</p>
+                {group.guests.length === 0 ? (
+                  <p className="ml-3">None</p>
+                ) : (
+                  <ul className="ml-3">
+                    {group.guests.map(({ guest, needs }) => (
+                      <li key={guest}>
+                        Guest {guest}: <span className="text-gray-800">{needs.join(", ")}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {group.note && <p>Notes: {group.note}</p>}
+              </div>
+            ) : (
+              booking.notes && <p className="text-sm text-gray-600 mt-1">Notes: {booking.notes}</p>
+            )}
+            {restaurant?.discountCode && (
+              <p className="text-sm mt-1">
+                <span className="text-gray-600">Walk-in discount code:</span>{" "}
+                <span className="font-mono font-medium text-[#075E54]">{restaurant.discountCode}</span>
+              </p>
+            )}
+          </div>
+          <div className="text-right">
+            {booking.status === "cancelled" ? (
+              <span className="text-xs px-2 py-1 rounded bg-gray-200 text-gray-600">Cancelled</span>
+            ) : booking.status === "waitlisted" ? (
+              <span className="text-xs px-2 py-1 rounded bg-yellow-100 text-yellow-800">Waitlisted</span>
+            ) : (
+              <span className="text-xs px-2 py-1 rounded bg-[#DCF8C6] text-[#128C7E] font-mono">
+                {booking.confirmationId || "Confirmed"}
+              </span>
+            )}
+          </div>
+        </div>
+
+        {canManage && !isEditing && (
+          <div className="flex gap-2 mt-3">
+            <button
+              onClick={() => startEditing(booking)}
+              className="px-3 py-1.5 text-xs bg-white text-[#075E54] rounded border border-[#075E54] hover:bg-[#075E54] hover:text-white transition-colors"
+            >
+              Modify
+            </button>
+            <button
+              onClick={() => handleCancel(booking)}
+              className="px-3 py-1.5 text-xs bg-white text-red-600 rounded border border-red-300 hover:bg-red-50 transition-colors"
+            >
+              Cancel
+            </button>
+            {booking.seriesId && (
+              <button
+                onClick={() => handleCancelSeries(booking)}
+                className="px-3 py-1.5 text-xs bg-white text-red-600 rounded border border-red-300 hover:bg-red-50 transition-colors"
+              >
+                Cancel series
+              </button>
+            )}
+            <a
+              href={getBookingIcsPath(booking.id)}
+              className="px-3 py-1.5 text-xs bg-white text-gray-700 rounded border border-gray-300 hover:bg-gray-100 transition-colors"
+            >
+              Add to calendar
+            </a>
+          </div>
+        )}
+
+        {isEditing && (
+          <div className="mt-3 space-y-2">
+            <div className="grid grid-cols-3 gap-2">
+              <input
+                type="date"
+                value={editValues.date}
+                onChange={(e) => setEditValues({ ...editValues, date: e.target.value })}
+                className="px-3 py-2 text-sm bg-white rounded border border-gray-300 text-gray-800"
+              />
+              <input
+                type="time"
+                step={1800}
+                value={editValues.time}
+                onChange={(e) => setEditValues({ ...editValues, time: e.target.value })}
+                className="px-3 py-2 text-sm bg-white rounded border border-gray-300 text-gray-800"
+              />
+              <input
+                type="number"
+                min={1}
+                value={editValues.partySize}
+                onChange={(e) => setEditValues({ ...editValues, partySize: e.target.value })}
+                className="px-3 py-2 text-sm bg-white rounded border border-gray-300 text-gray-800"
+              />
+            </div>
+            {editError && <p className="text-sm text-red-600">{editError}</p>}
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleModify(booking)}
+                className="px-3 py-1.5 text-xs whatsapp-green text-white rounded hover:opacity-90 transition-opacity"
+              >
+                Save
+              </button>
+              <button
+                onClick={() => setEditingId(null)}
+                className="px-3 py-1.5 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation */}
+      <nav className="bg-white border-b border-gray-200 px-4 py-4">
+        <div className="max-w-7xl mx-auto flex gap-6">
+          <Link href="/" className="text-[#075E54] font-semibold text-lg">
+            <span className="font-bold text-xl">Vida</span>
+          </Link>
+          <div className="flex gap-4 ml-auto">
+            <Link href="/" className="text-gray-600 hover:text-[#075E54] transition-colors">
+              Home
+            </Link>
+            <Link href="/chat" className="text-gray-600 hover:text-[#075E54] transition-colors">
+              Chat
+            </Link>
+            <Link href="/restaurants" className="text-gray-600 hover:text-[#075E54] transition-colors">
+              Restaurants
+            </Link>
+            <Link href="/bookings" className="text-[#075E54] font-semibold">
+              Bookings
+            </Link>
+            <Link href="/insights" className="text-gray-600 hover:text-[#075E54] transition-colors">
+              Insights
+            </Link>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-4xl font-bold text-gray-800 mb-2">My Bookings</h1>
+            <p className="text-gray-600">Upcoming and past reservations</p>
+          </div>
+
+          {/* Account Filter */}
+          <div className="flex gap-2">
+            {(["Danny", "Raphael"] as AccountDisplay[]).map((display) => (
+              <button
+                key={display}
+                onClick={() => setSelectedAccount(display)}
+                className={`px-4 py-2 rounded-lg transition-all ${
+                  selectedAccount === display
+                    ? "whatsapp-green text-white"
+                    : "bg-white text-gray-700 hover:bg-gray-100 border border-gray-200"
+                }`}
+              >
+                {display}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+        )}
+
+        {isLoading ? (
+          <p className="text-gray-500 text-sm">Loading bookings...</p>
+        ) : bookings.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+            <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-gray-100 flex items-center justify-center">
+              <span className="text-3xl">🍽️</span>
+            </div>
+            <p className="text-gray-600 text-lg">No bookings yet for {selectedAccount}.</p>
+            <Link
+              href="/chat"
+              className="inline-block mt-4 px-4 py-2 whatsapp-green text-white rounded-lg hover:opacity-90 transition-opacity"
+            >
+              Find a table in Chat
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">Upcoming</h2>
+              {upcoming.length === 0 ? (
+                <p className="text-gray-500 text-sm">
+                  Nothing coming up.{" "}
+                  <Link href="/chat" className="text-[#075E54] underline">
+                    Book something in Chat
+                  </Link>
+                </p>
+              ) : (
+                <div className="space-y-3">{upcoming.map((b) => renderBooking(b, true))}</div>
+              )}
+            </section>
+
+            <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">Past &amp; Cancelled</h2>
+              {past.length === 0 ? (
+                <p className="text-gray-500 text-sm">No past bookings.</p>
+              ) : (
+                <div className="space-y-3">{past.map((b) => renderBooking(b, false))}</div>
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,21 +4,25 @@ import { useEffect, useState, useRef } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { getAccount } from "@/lib/memory";
-import { getAccountDisplay, getProfile, getHistory, saveHistory, getActiveRequest, saveActiveRequest, getMode, saveMode, getPendingSlot, savePendingSlot, getSelectedRestaurantId } from "@/lib/storage";
-import type { Message, Account } from "@/types";
-import type { ConversationContext } from "@/lib/conversation";
-import { initializeConversation, processMessage, getWelcomeMessage } from "@/lib/conversation";
-import { processMessageNew } from "@/lib/newConversation";
+import { getAccountDisplay, getProfile, getHistory, saveHistory, getActiveRequest, saveActiveRequest, getMode, saveMode, getPendingSlot, savePendingSlot, getSelectedRestaurantId, getConversationFlow, saveConversationFlow, getClarification } from "@/lib/storage";
+import type { Message, Account, ConversationFlow } from "@/types";
+import { processMessageStream } from "@/lib/newConversation";
+import { DEFAULT_FLOW, FLOWS, STAGE_STATUS, hasStage } from "@/lib/dialoguePipeline";
+import { drainInboxClient } from "@/lib/inboxClient";
 import ChatMessage from "@/components/ChatMessage";
 import ChatInput from "@/components/ChatInput";
 
+const INBOX_POLL_MS = 30000;
+
 export default function ChatPage() {
   const router = useRouter();
   const [account, setAccountState] = useState<Account | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
-  const [context, setContext] = useState<ConversationContext | null>(null);
+  const [flow, setFlow] = useState<ConversationFlow>(DEFAULT_FLOW);
   const [isLoading, setIsLoading] = useState(false);
   const [showDebug, setShowDebug] = useState(false);
+  // Assistant reply being streamed for the current turn
+  const [streamingReply, setStreamingReply] = useState<{ status: string; text: string } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -28,14 +32,10 @@ export default function ChatPage() {
       return;
     }
     setAccountState(currentAccount);
+    setFlow(getConversationFlow(currentAccount));
 
-    // Load profile and initialize conversation
-    const profile = getProfile();
     const history = getHistory();
-    const convContext = initializeConversation(profile);
 
-    setContext(convContext);
-    
     // Initialize new flow state if needed
     const activeRequest = getActiveRequest();
     const mode = getMode();
@@ -63,24 +63,50 @@ export default function ChatPage() {
     }
   }, [router]);
 
+  // Pull in messages the server queued for this account (e.g. a waitlist promotion)
+  useEffect(() => {
+    if (!account || isLoading) return;
+
+    const checkInbox = async () => {
+      try {
+        const incoming = await drainInboxClient(account);
+        if (incoming.length === 0) return;
+        const updatedMessages = [...getHistory(), ...incoming];
+        saveHistory(updatedMessages);
+        setMessages(updatedMessages);
+      } catch (error) {
+        console.error("Inbox error:", error);
+      }
+    };
+
+    checkInbox();
+    const interval = setInterval(checkInbox, INBOX_POLL_MS);
+    return () => clearInterval(interval);
+  }, [account, isLoading]);
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, streamingReply]);
 
   const handleSend = async (text: string) => {
     if (isLoading) return;
 
     setIsLoading(true);
+    const userMessage: Message = {
+      id: `msg-${Date.now()}-pending`,
+      role: "user",
+      text,
+      ts: Date.now(),
+    };
+    setMessages([...messages, userMessage]);
+    setStreamingReply({ status: "", text: "" });
 
     try {
-      // Use new flow
-      const result = await processMessageNew(text);
+      const result = await processMessageStream(text, {
+        onTyping: (stage) => setStreamingReply((reply) => reply && { ...reply, status: STAGE_STATUS[stage] }),
+        onDelta: (chunk) => setStreamingReply((reply) => reply && { ...reply, text: reply.text + chunk }),
+      });
       setMessages(result.messages);
-      // Update context for debug panel if needed
-      if (context) {
-        const newContext = { ...context };
-        setContext(newContext);
-      }
     } catch (error) {
       console.error("Error processing message:", error);
       const errorMessage: Message = {
@@ -93,10 +119,17 @@ export default function ChatPage() {
       setMessages(errorMessages);
       saveHistory(errorMessages);
     } finally {
+      setStreamingReply(null);
       setIsLoading(false);
     }
   };
 
+  const handleFlowChange = (next: ConversationFlow) => {
+    if (!account) return;
+    saveConversationFlow(account, next);
+    setFlow(next);
+  };
+
   const handleSwitchAccount = () => {
     router.push("/");
   };
@@ -111,11 +144,19 @@ export default function ChatPage() {
   const getQuickReplyChips = (): string[] => {
     const chips: string[] = [];
     const mode = getMode();
+    const clarification = getClarification();
     
-    if (mode === "recommending") {
+    if (clarification) {
+      chips.push(...clarification.options, "Neither");
+    } else if (mode === "recommending") {
       chips.push("Continue chat", "Pick #1", "Pick #2", "Pick #3");
+      if (hasStage({ flow }, "diversify")) chips.push("More");
     } else if (mode === "confirming") {
-      chips.push("Skip");
+      chips.push("No note");
+    } else if (mode === "managing") {
+      chips.push("Never mind");
+    } else if (mode === "resuming") {
+      chips.push("Resume", "Start over");
     }
     
     chips.push("reset");
@@ -139,9 +180,27 @@ export default function ChatPage() {
                     <Link href="/chat" className="text-[#075E54] font-semibold">
                       Chat
                     </Link>
+                    <Link href="/bookings" className="text-gray-600 hover:text-[#075E54] transition-colors">
+                      Bookings
+                    </Link>
                   </div>
                 </div>
                 <div className="flex gap-3 items-center">
+                  <label className="text-sm text-gray-600">
+                    Flow:{" "}
+                    <select
+                      value={flow}
+                      onChange={(e) => handleFlowChange(e.target.value as ConversationFlow)}
+                      className="px-2 py-1 text-sm bg-white border border-gray-300 rounded text-gray-800"
+                      title="Which chat features this account uses"
+                    >
+                      {(Object.keys(FLOWS) as ConversationFlow[]).map((f) => (
+                        <option key={f} value={f}>
+                          {FLOWS[f].label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
                   <button
                     onClick={() => setShowDebug(!showDebug)}
                     className="px-3 py-1.5 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
@@ -189,6 +248,13 @@ export default function ChatPage() {
               </button>
             </div>
 
+            {/* Flow */}
+            <div className="mb-4 p-2 bg-white rounded border border-gray-200">
+              <div className="font-semibold text-gray-700 mb-1">Flow</div>
+              <div className="text-gray-900 font-mono">{flow}</div>
+              <div className="text-gray-600 font-mono mt-1">{FLOWS[flow].stages.join(" → ")}</div>
+            </div>
+
             {/* Mode */}
             <div className="mb-4 p-2 bg-white rounded border border-gray-200">
               <div className="font-semibold text-gray-700 mb-1">Mode</div>
@@ -248,6 +314,13 @@ export default function ChatPage() {
                 {messages.map((message) => (
                   <ChatMessage key={message.id} message={message} />
                 ))}
+                {streamingReply && (
+                  <ChatMessage
+                    message={{ id: "streaming", role: "assistant", text: streamingReply.text, ts: Date.now() }}
+                    streaming
+                    status={streamingReply.status}
+                  />
+                )}
                 <div ref={messagesEndRef} />
               </>
             )}
@@ -6,7 +6,8 @@ import { useRouter } from "next/navigation";
 import { getAccount, loadOrCreateSession } from "@/lib/memory";
 import { getAccountDisplay, accountFromDisplay } from "@/lib/storage";
 import { RESTAURANTS } from "@/lib/restaurants";
-import type { Account, AccountDisplay, Session } from "@/types";
+import { listWalkInsClient } from "@/lib/walkInsClient";
+import type { Account, AccountDisplay, Session, WalkInIntent, WalkInStatus } from "@/types";
 
 export default function InsightsPage() {
   const router = useRouter();
@@ -14,6 +15,7 @@ export default function InsightsPage() {
   const [session, setSession] = useState<Session | null>(null);
   const [debugInfo, setDebugInfo] = useState<any>(null);
   const [showOnlyUserMessages, setShowOnlyUserMessages] = useState(false);
+  const [walkIns, setWalkIns] = useState<(WalkInIntent & { status: WalkInStatus })[]>([]);
 
   // Load session and debug info when account changes
   useEffect(() => {
@@ -35,6 +37,16 @@ export default function InsightsPage() {
     }
   }, [selectedAccount]);
 
+  // Load walk-in intents and redemptions from the server
+  useEffect(() => {
+    listWalkInsClient(accountFromDisplay(selectedAccount))
+      .then(setWalkIns)
+      .catch((error) => {
+        console.error("Load walk-ins error:", error);
+        setWalkIns([]);
+      });
+  }, [selectedAccount]);
+
   const account: Account = accountFromDisplay(selectedAccount);
 
   const filteredMessages = session?.messages.filter(
@@ -119,6 +131,9 @@ export default function InsightsPage() {
             <Link href="/restaurants" className="text-gray-600 hover:text-[#075E54] transition-colors">
               Restaurants
             </Link>
+            <Link href="/bookings" className="text-gray-600 hover:text-[#075E54] transition-colors">
+              Bookings
+            </Link>
             <Link href="/insights" className="text-[#075E54] font-semibold">
               Insights
             </Link>
@@ -278,7 +293,53 @@ export default function InsightsPage() {
               </div>
             </section>
 
-            {/* 3. Conversation Timeline */}
+            {/* 3. Walk-ins */}
+            <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">Walk-ins &amp; Discount Codes</h2>
+
+              {walkIns.length === 0 ? (
+                <p className="text-gray-500 text-sm">No walk-in visits yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {walkIns.map((intent) => {
+                    const restaurant = RESTAURANTS.find((r) => r.id === intent.restaurantId);
+                    return (
+                      <div
+                        key={intent.id}
+                        className="px-3 py-2 bg-gray-50 rounded-lg border border-gray-200 flex items-center justify-between text-sm"
+                      >
+                        <div>
+                          <span className="font-medium text-gray-800">{restaurant?.name || "Unknown restaurant"}</span>{" "}
+                          <span className="text-gray-500">
+                            {intent.date} · ref {intent.id}
+                          </span>
+                          <div className="text-gray-600">
+                            Code:{" "}
+                            <span className="font-mono text-[#075E54]">{intent.discountCode || "none shown"}</span>
+                            {intent.redeemedTs && (
+                              <span className="text-gray-500"> · redeemed {new Date(intent.redeemedTs).toLocaleString()}</span>
+                            )}
+                          </div>
+                        </div>
+                        <span
+                          className={`text-xs px-2 py-1 rounded ${
+                            intent.status === "redeemed"
+                              ? "bg-[#DCF8C6] text-[#128C7E]"
+                              : intent.status === "expired"
+                                ? "bg-gray-200 text-gray-600"
+                                : "bg-yellow-100 text-yellow-800"
+                          }`}
+                        >
+                          {intent.status === "redeemed" ? "Redeemed" : intent.status === "expired" ? "Expired" : "Active"}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+
+            {/* 4. Conversation Timeline */}
             <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
               <div className="flex items-center justify-between mb-4">
                 <h2 className="text-xl font-bold text-gray-800">Conversation Timeline</h2>
@@ -321,7 +382,7 @@ export default function InsightsPage() {
               )}
             </section>
 
-            {/* 4. Agent Decision Trace */}
+            {/* 5. Agent Decision Trace */}
             <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
               <h2 className="text-xl font-bold text-gray-800 mb-4">Agent Decision Trace</h2>
 
@@ -384,7 +445,7 @@ export default function InsightsPage() {
               )}
             </section>
 
-            {/* 5. Test Panel */}
+            {/* 6. Test Panel */}
             <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
               <h2 className="text-xl font-bold text-gray-800 mb-4">Test Panel</h2>
               <p className="text-sm text-gray-600 mb-4">
@@ -35,6 +35,9 @@ export default function Home() {
             <Link href="/restaurants" className="text-gray-600 hover:text-[#075E54] transition-colors">
               Restaurants
             </Link>
+            <Link href="/bookings" className="text-gray-600 hover:text-[#075E54] transition-colors">
+              Bookings
+            </Link>
             <Link href="/insights" className="text-gray-600 hover:text-[#075E54] transition-colors">
               Insights
             </Link>
@@ -81,6 +81,9 @@ export default function RestaurantsPage() {
           <Link href="/restaurants" className="text-blue-600 font-semibold">
             Restaurants
           </Link>
+          <Link href="/bookings" className="text-gray-700 hover:text-blue-600 transition-colors">
+            Bookings
+          </Link>
           <Link href="/insights" className="text-gray-700 hover:text-blue-600 transition-colors">
             Insights
           </Link>
@@ -4,9 +4,30 @@ import type { Message } from "@/types";
 
 interface ChatMessageProps {
   message: Message;
+  /** Reply still arriving: show a typing status until text comes in, then a cursor */
+  streaming?: boolean;
+  status?: string;
 }
 
-export default function ChatMessage({ message }: ChatMessageProps) {
+// In-app API paths (e.g. calendar downloads) and web URLs in assistant text
+const LINK_PATTERN = /(\/api\/\S+|https?:\/\/\S+)/g;
+
+/**
+ * Split message text into plain text and clickable links
+ */
+function renderText(text: string) {
+  return text.split(LINK_PATTERN).map((part, idx) =>
+    idx % 2 === 1 ? (
+      <a key={idx} href={part} className="text-[#027EB5] underline break-all">
+        {part}
+      </a>
+    ) : (
+      part
+    )
+  );
+}
+
+export default function ChatMessage({ message, streaming, status }: ChatMessageProps) {
   const isUser = message.role === "user";
 
   return (
@@ -18,7 +39,14 @@ export default function ChatMessage({ message }: ChatMessageProps) {
             : "whatsapp-received rounded-tl-none"
         }`}
       >
-        <p className="text-sm whitespace-pre-wrap leading-relaxed mb-0.5">{message.text}</p>
+        {streaming && !message.text ? (
+          <p className="text-sm italic text-[#667781] leading-relaxed mb-0.5 animate-pulse">{status || "Typing"}…</p>
+        ) : (
+          <p className="text-sm whitespace-pre-wrap leading-relaxed mb-0.5">
+            {renderText(message.text)}
+            {streaming && <span className="animate-pulse">▍</span>}
+          </p>
+        )}
         <div className={`flex justify-end gap-1 ${isUser ? "text-[#667781]" : "text-[#667781]"}`}>
           <span className="text-[10px] leading-none">
             {new Date(message.ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
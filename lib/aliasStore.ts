@@ -0,0 +1,145 @@
+import type { SlotAlias } from "@/types";
+import { getDataFile, readJsonFile, writeJsonFile, withWriteLock } from "./fileStore";
+import { getAvailableAreas } from "./parser";
+import { getAvailableCuisines } from "./restaurants";
+import { validateSlot, normalizeToDB, understandTurn, type DbNormalization, type UnderstandTurnInput } from "./gptPrompts";
+import { normalizeAliasInput } from "./clarification";
+
+/**
+ * File-based aliases for area and cuisine inputs (server-side only)
+ * Saved when a user answers "did you mean X or Y?"; checked before asking the model (or over its answer)
+ */
+
+const ALIASES_FILE = getDataFile(process.env.ALIASES_FILE, "aliases.json");
+
+async function readAll(): Promise<SlotAlias[]> {
+  return readJsonFile<SlotAlias[]>(ALIASES_FILE, []);
+}
+
+function getChoices(slot: SlotAlias["slot"]): string[] {
+  return slot === "area" ? getAvailableAreas() : getAvailableCuisines();
+}
+
+export async function listAliases(): Promise<SlotAlias[]> {
+  return readAll();
+}
+
+/**
+ * The DB value an input stands for, if someone picked one for it before
+ */
+export async function getAlias(slot: SlotAlias["slot"], input: string): Promise<string | null> {
+  const key = normalizeAliasInput(input);
+  if (!key) return null;
+
+  const alias = (await readAll()).find((a) => a.slot === slot && a.input === key);
+  // Ignore aliases for values that have since left the restaurant list
+  return alias && getChoices(slot).includes(alias.value) ? alias.value : null;
+}
+
+/**
+ * Remember an input → value pick; the latest pick for an input wins
+ * Returns null when the value isn't a supported choice or the input is empty
+ */
+export async function saveAlias(slot: SlotAlias["slot"], input: string, value: string): Promise<SlotAlias | null> {
+  const key = normalizeAliasInput(input);
+  if (!key || !getChoices(slot).includes(value)) return null;
+
+  return withWriteLock(async () => {
+    const alias: SlotAlias = { slot, input: key, value, ts: Date.now() };
+    const aliases = (await readAll()).filter((a) => !(a.slot === slot && a.input === key));
+    await writeJsonFile(ALIASES_FILE, [...aliases, alias]);
+    return alias;
+  });
+}
+
+/**
+ * validateSlot, answering area and cuisine replies from the aliases when one matches
+ */
+export async function validateWithAliases(
+  ...args: Parameters<typeof validateSlot>
+): Promise<Awaited<ReturnType<typeof validateSlot>>> {
+  const [slotName, userReply] = args;
+  if (slotName === "area" || slotName === "cuisine") {
+    const alias = await getAlias(slotName, userReply);
+    if (alias) return { slot: slotName, value: userReply, normalized: alias, confidence: 1 };
+  }
+  return validateSlot(...args);
+}
+
+/**
+ * normalizeToDB, matching aliased inputs directly and only asking the model about the rest
+ */
+export async function normalizeWithAliases(
+  rawArea: string | null,
+  rawCuisine: string | null,
+  supportedAreas: string[],
+  supportedCuisines: string[]
+): Promise<Awaited<ReturnType<typeof normalizeToDB>>> {
+  const areaAlias = rawArea ? await getAlias("area", rawArea) : null;
+  const cuisineAlias = rawCuisine ? await getAlias("cuisine", rawCuisine) : null;
+
+  const result =
+    (rawArea && !areaAlias) || (rawCuisine && !cuisineAlias)
+      ? await normalizeToDB(areaAlias ? null : rawArea, cuisineAlias ? null : rawCuisine, supportedAreas, supportedCuisines)
+      : {
+          areaMatch: { input: null, matched: null, confidence: 0 },
+          cuisineMatch: { input: null, matched: null, confidence: 0 },
+          unavailable: { area: false, cuisine: false },
+        };
+
+  return applyAliasMatches(result, rawArea, areaAlias, rawCuisine, cuisineAlias);
+}
+
+function applyAliasMatches(
+  normalization: DbNormalization,
+  rawArea: string | null,
+  areaAlias: string | null,
+  rawCuisine: string | null,
+  cuisineAlias: string | null
+): DbNormalization {
+  const result = structuredClone(normalization);
+  if (areaAlias) {
+    result.areaMatch = { input: rawArea, matched: areaAlias, confidence: 1 };
+    result.unavailable.area = false;
+  }
+  if (cuisineAlias) {
+    result.cuisineMatch = { input: rawCuisine, matched: cuisineAlias, confidence: 1 };
+    result.unavailable.cuisine = false;
+  }
+  return result;
+}
+
+/**
+ * understandTurn, with aliases overriding the validated answer and the DB matches
+ * The call still goes to the model: the intent and the other slots need it
+ */
+export async function understandWithAliases(
+  input: UnderstandTurnInput
+): Promise<Awaited<ReturnType<typeof understandTurn>>> {
+  const result = await understandTurn(input);
+
+  const pending = input.pendingSlot?.name;
+  if (result.validation && (pending === "area" || pending === "cuisine")) {
+    const alias = await getAlias(pending, input.userMessage);
+    if (alias) result.validation = { slot: pending, value: input.userMessage, normalized: alias, confidence: 1 };
+  }
+
+  const withAliases = async (normalization: DbNormalization, extracted: typeof result.extracted) => {
+    const rawArea = extracted.area.value;
+    const rawCuisine = extracted.cuisine.value;
+    return applyAliasMatches(
+      normalization,
+      rawArea,
+      rawArea ? await getAlias("area", rawArea) : null,
+      rawCuisine,
+      rawCuisine ? await getAlias("cuisine", rawCuisine) : null
+    );
+  };
+  result.normalization = await withAliases(result.normalization, result.extracted);
+  result.additionalNormalizations = await Promise.all(
+    result.additionalRequests.map((extracted, i) =>
+      withAliases(result.additionalNormalizations[i] ?? result.normalization, extracted)
+    )
+  );
+  return result;
+}
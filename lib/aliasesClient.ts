@@ -0,0 +1,24 @@
+/**
+ * Client-side wrapper for the aliases API route
+ */
+
+import type { SlotAlias } from "@/types";
+
+export async function saveAliasClient(
+  slot: SlotAlias["slot"],
+  input: string,
+  value: string
+): Promise<SlotAlias> {
+  const response = await fetch("/api/aliases", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ slot, input, value }),
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to save alias");
+  }
+
+  const body = await response.json();
+  return body.alias;
+}
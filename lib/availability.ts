@@ -0,0 +1,334 @@
+import type { Booking, Restaurant, RestaurantInventory } from "@/types";
+import { RESTAURANTS } from "./restaurants";
+
+// All venues are in Dubai (UTC+4, no daylight saving), so venue-local times convert to UTC with a fixed offset
+export const VENUE_UTC_OFFSET_MINUTES = 4 * 60;
+
+/**
+ * Today's date (yyyy-mm-dd) where the venues are; from midnight to 4am there it's still yesterday in UTC
+ */
+export function getVenueToday(now = Date.now()): string {
+  return new Date(now + VENUE_UTC_OFFSET_MINUTES * 60 * 1000).toISOString().split("T")[0];
+}
+
+/**
+ * Default inventory per price tier
+ */
+const DEFAULT_INVENTORY: Record<Restaurant["price"], RestaurantInventory> = {
+  low: {
+    capacity: 40,
+    maxPartySize: 8,
+    openingHours: { open: "12:00", close: "23:30" },
+    slotMinutes: 30,
+    turnMinutes: 60,
+    waitlistSeats: 8,
+  },
+  mid: {
+    capacity: 60,
+    maxPartySize: 10,
+    openingHours: { open: "12:00", close: "23:30" },
+    slotMinutes: 30,
+    turnMinutes: 90,
+    waitlistSeats: 10,
+  },
+  high: {
+    capacity: 50,
+    maxPartySize: 8,
+    openingHours: { open: "18:00", close: "01:00" },
+    slotMinutes: 30,
+    turnMinutes: 120,
+    waitlistSeats: 6,
+  },
+};
+
+/**
+ * Per-restaurant overrides on top of the price tier defaults
+ */
+const INVENTORY_OVERRIDES: Record<string, Partial<RestaurantInventory>> = {
+  // Al Bayt - Palace Downtown: small dining room, also serves breakfast and afternoon tea
+  "6627a5003e6f5bad735de38b": {
+    capacity: 24,
+    openingHours: { open: "07:00", close: "23:00" },
+  },
+};
+
+function isCafe(restaurant: Restaurant): boolean {
+  return restaurant.cuisines.some((c) => c.toLowerCase() === "cafe");
+}
+
+/**
+ * Get the seating inventory for a restaurant
+ */
+export function getInventory(restaurant: Restaurant): RestaurantInventory {
+  const base = DEFAULT_INVENTORY[restaurant.price];
+  // Cafes open for breakfast and close earlier
+  const tierHours = isCafe(restaurant) ? { open: "08:00", close: "22:00" } : base.openingHours;
+  return {
+    ...base,
+    openingHours: tierHours,
+    ...INVENTORY_OVERRIDES[restaurant.id],
+    ...(restaurant.maxPartySize ? { maxPartySize: restaurant.maxPartySize } : {}),
+  };
+}
+
+/**
+ * Whether a restaurant takes a party this size at all (ignores current bookings)
+ */
+export function canSeatParty(restaurant: Restaurant, partySize: number): boolean {
+  return partySize <= getInventory(restaurant).maxPartySize;
+}
+
+/**
+ * Largest party any restaurant can seat
+ */
+export function getLargestPartySize(): number {
+  return Math.max(...RESTAURANTS.map((r) => getInventory(r).maxPartySize));
+}
+
+/**
+ * Parse a time string into minutes since midnight
+ * Accepts HH:mm, "8pm", "8:30 pm", "20.30"; returns null if unparseable
+ * A bare hour ("9") is read against the restaurant's hours when one is given, else as pm
+ */
+export function parseTimeToMinutes(time: string, restaurant?: Restaurant): number | null {
+  const match = time.trim().toLowerCase().match(/^(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?$/);
+  if (!match) return null;
+
+  let hours = parseInt(match[1]);
+  const minutes = match[2] ? parseInt(match[2]) : 0;
+  const ampm = match[3];
+
+  if (ampm === "pm" && hours < 12) hours += 12;
+  if (ampm === "am" && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+  // A bare number without am/pm is ambiguous below 12
+  if (!ampm && !match[2] && hours >= 1 && hours <= 11) {
+    hours = restaurant ? resolveBareHour(restaurant, hours) : hours + 12;
+  }
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Format minutes since midnight as HH:mm (wraps past midnight)
+ */
+export function formatMinutes(totalMinutes: number): string {
+  const wrapped = ((totalMinutes % 1440) + 1440) % 1440;
+  const hours = Math.floor(wrapped / 60);
+  const minutes = wrapped % 60;
+  return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Opening window in minutes; close is pushed past 24:00 when the venue closes after midnight
+ */
+function getOpeningWindow(inventory: RestaurantInventory): { open: number; close: number } {
+  const open = parseTimeToMinutes(inventory.openingHours.open) ?? 0;
+  let close = parseTimeToMinutes(inventory.openingHours.close) ?? 1440;
+  if (close <= open) close += 1440;
+  return { open, close };
+}
+
+/**
+ * Map a requested time onto the opening window (so 00:30 counts as 24:30 for late venues)
+ */
+function toWindowMinutes(minutes: number, window: { open: number; close: number }): number {
+  return minutes < window.open && minutes + 1440 < window.close ? minutes + 1440 : minutes;
+}
+
+/**
+ * Whether a table starting at this time gets a full turn before close
+ */
+function isBookableStart(minutes: number, inventory: RestaurantInventory): boolean {
+  const window = getOpeningWindow(inventory);
+  const start = toWindowMinutes(minutes, window);
+  return start >= window.open && start + inventory.turnMinutes <= window.close;
+}
+
+/**
+ * Pick the am or pm reading of a bare hour that the restaurant can seat
+ * When both can, cafes take the morning and everyone else the evening ("8" usually means 8pm for dinner)
+ */
+function resolveBareHour(restaurant: Restaurant, hour: number): number {
+  const inventory = getInventory(restaurant);
+  const morning = isBookableStart(hour * 60, inventory);
+  const evening = isBookableStart((hour + 12) * 60, inventory);
+  return morning && (!evening || isCafe(restaurant)) ? hour : hour + 12;
+}
+
+/**
+ * All bookable start times for a restaurant (last seating leaves a full turn before close)
+ */
+export function getSlotTimes(restaurant: Restaurant): string[] {
+  const inventory = getInventory(restaurant);
+  const window = getOpeningWindow(inventory);
+  const times: string[] = [];
+  for (let t = window.open; t + inventory.turnMinutes <= window.close; t += inventory.slotMinutes) {
+    times.push(formatMinutes(t));
+  }
+  return times;
+}
+
+/**
+ * Whether a booking still holds (or is waiting for) a table
+ */
+function isActive(booking: Booking): boolean {
+  return booking.status === undefined || booking.status === "confirmed" || booking.status === "waitlisted";
+}
+
+/**
+ * Count seats held by bookings whose table overlaps the given start time
+ */
+function seatsTaken(
+  restaurant: Restaurant,
+  date: string,
+  startMinutes: number,
+  bookings: Booking[],
+  status: "confirmed" | "waitlisted"
+): number {
+  const inventory = getInventory(restaurant);
+  const window = getOpeningWindow(inventory);
+  const start = toWindowMinutes(startMinutes, window);
+  const end = start + inventory.turnMinutes;
+
+  return bookings
+    .filter((b) => b.restaurantId === restaurant.id && b.date === date && isActive(b))
+    .filter((b) => (b.status ?? "confirmed") === status)
+    .reduce((sum, b) => {
+      const bookedMinutes = parseTimeToMinutes(b.time, restaurant);
+      if (bookedMinutes === null) return sum;
+      const bStart = toWindowMinutes(bookedMinutes, window);
+      const bEnd = bStart + inventory.turnMinutes;
+      return bStart < end && start < bEnd ? sum + b.partySize : sum;
+    }, 0);
+}
+
+/**
+ * Whether tables starting at these two times are on the floor at the same time
+ */
+export function sittingsOverlap(restaurant: Restaurant, time: string, otherTime: string): boolean {
+  const inventory = getInventory(restaurant);
+  const window = getOpeningWindow(inventory);
+  const a = parseTimeToMinutes(time, restaurant);
+  const b = parseTimeToMinutes(otherTime, restaurant);
+  if (a === null || b === null) return false;
+  return Math.abs(toWindowMinutes(a, window) - toWindowMinutes(b, window)) < inventory.turnMinutes;
+}
+
+export type AvailabilityStatus = "available" | "full" | "closed" | "party_too_large" | "invalid_time";
+
+export interface AvailabilityCheck {
+  status: AvailabilityStatus;
+  /** Seats still free at the requested time (0 when not bookable) */
+  seatsLeft: number;
+  /** Seats already on the waitlist for the requested time */
+  waitlistedSeats: number;
+  inventory: RestaurantInventory;
+}
+
+/**
+ * Check whether a party can be seated at a restaurant on a date and time
+ */
+export function checkAvailability(
+  restaurant: Restaurant,
+  date: string,
+  time: string,
+  partySize: number,
+  bookings: Booking[]
+): AvailabilityCheck {
+  const inventory = getInventory(restaurant);
+  const minutes = parseTimeToMinutes(time, restaurant);
+
+  if (minutes === null) {
+    return { status: "invalid_time", seatsLeft: 0, waitlistedSeats: 0, inventory };
+  }
+  if (partySize > inventory.maxPartySize) {
+    return { status: "party_too_large", seatsLeft: 0, waitlistedSeats: 0, inventory };
+  }
+
+  if (!isBookableStart(minutes, inventory)) {
+    return { status: "closed", seatsLeft: 0, waitlistedSeats: 0, inventory };
+  }
+
+  const seatsLeft = Math.max(0, inventory.capacity - seatsTaken(restaurant, date, minutes, bookings, "confirmed"));
+  const waitlistedSeats = seatsTaken(restaurant, date, minutes, bookings, "waitlisted");
+
+  return {
+    status: seatsLeft >= partySize ? "available" : "full",
+    seatsLeft,
+    waitlistedSeats,
+    inventory,
+  };
+}
+
+/**
+ * Whether a full slot still has waitlist room for this party
+ */
+export function canJoinWaitlist(check: AvailabilityCheck, partySize: number): boolean {
+  return check.status === "full" && check.waitlistedSeats + partySize <= check.inventory.waitlistSeats;
+}
+
+/**
+ * Find open slots closest to the requested time on the same date
+ */
+export function findNearbySlots(
+  restaurant: Restaurant,
+  date: string,
+  time: string,
+  partySize: number,
+  bookings: Booking[],
+  limit = 3
+): string[] {
+  const requested = parseTimeToMinutes(time, restaurant);
+  const window = getOpeningWindow(getInventory(restaurant));
+  const target = requested === null ? window.open : toWindowMinutes(requested, window);
+
+  return getSlotTimes(restaurant)
+    .filter((slot) => slot !== time)
+    .filter((slot) => checkAvailability(restaurant, date, slot, partySize, bookings).status === "available")
+    .map((slot) => ({ slot, distance: Math.abs(toWindowMinutes(parseTimeToMinutes(slot)!, window) - target) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map((s) => s.slot)
+    .sort((a, b) => toWindowMinutes(parseTimeToMinutes(a)!, window) - toWindowMinutes(parseTimeToMinutes(b)!, window));
+}
+
+/**
+ * Why booking fields can't be used, or null when they can; only the fields given are checked
+ * Dates must be yyyy-mm-dd, times HH:mm and party sizes whole numbers the restaurant can seat
+ */
+export function getBookingFieldsError(
+  restaurantId: string,
+  fields: { date?: unknown; time?: unknown; partySize?: unknown }
+): string | null {
+  if (fields.date !== undefined) {
+    const valid =
+      typeof fields.date === "string" &&
+      /^\d{4}-\d{2}-\d{2}$/.test(fields.date) &&
+      !isNaN(Date.parse(`${fields.date}T00:00:00Z`)) &&
+      new Date(`${fields.date}T00:00:00Z`).toISOString().startsWith(fields.date);
+    if (!valid) return "date must be yyyy-mm-dd";
+  }
+  if (fields.time !== undefined) {
+    if (typeof fields.time !== "string" || !/^([01]\d|2[0-3]):[0-5]\d$/.test(fields.time)) {
+      return "time must be HH:mm";
+    }
+  }
+  if (fields.partySize !== undefined) {
+    const partySize = Number(fields.partySize);
+    if (!Number.isInteger(partySize) || partySize < 1) return "partySize must be a whole number of at least 1";
+    const restaurant = getRestaurantById(restaurantId);
+    const maxPartySize = restaurant ? getInventory(restaurant).maxPartySize : null;
+    if (maxPartySize !== null && partySize > maxPartySize) {
+      return `partySize must be at most ${maxPartySize} at this restaurant`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Look up a restaurant by ID
+ */
+export function getRestaurantById(restaurantId: string): Restaurant | undefined {
+  return RESTAURANTS.find((r) => r.id === restaurantId);
+}
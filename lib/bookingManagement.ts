@@ -0,0 +1,219 @@
+import type { Account, Booking, BookingManagementState } from "@/types";
+import { RESTAURANTS } from "./restaurants";
+import { parseTimeToMinutes, formatMinutes, getVenueToday } from "./availability";
+import type { Classification, DialogueDeps } from "./dialoguePipeline";
+import { getBookingIcsPath } from "./ics";
+import { describeRecurrence } from "./recurrence";
+
+type Extracted = Classification["extracted"];
+
+export interface ManagementStep {
+  /** Next flow state, or null when the flow is finished */
+  state: BookingManagementState | null;
+  text: string;
+}
+
+/**
+ * Whether a booking is still ahead of us and can be changed
+ * Dates that aren't yyyy-mm-dd can't be compared, so they count as upcoming
+ */
+export function isUpcoming(booking: Booking, today = getVenueToday()): boolean {
+  if (booking.status === "cancelled") return false;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(booking.date)) return true;
+  return booking.date >= today;
+}
+
+/**
+ * One-line booking summary, e.g. "Zafran (Dubai Marina) on 2026-10-20 at 20:00 for 2 (BK-D261020-001F)"
+ */
+export function formatBookingSummary(booking: Booking): string {
+  const restaurant = RESTAURANTS.find((r) => r.id === booking.restaurantId);
+  const name = restaurant ? `${restaurant.name} (${restaurant.area})` : "Unknown restaurant";
+  const code = booking.status === "waitlisted" ? "waitlisted" : booking.confirmationId;
+  const repeats = booking.recurrence ? `, repeats ${describeRecurrence(booking.recurrence)}` : "";
+  return `${name} on ${booking.date} at ${booking.time} for ${booking.partySize}${code ? ` (${code})` : ""}${repeats}`;
+}
+
+/**
+ * Pull date/time/party size changes out of Prompt A's extraction
+ */
+export function changesFromExtraction(extracted: Extracted): BookingManagementState["changes"] {
+  const changes: BookingManagementState["changes"] = {};
+  if (extracted.date.value && extracted.date.confidence > 0.5) {
+    changes.date = extracted.date.value;
+  }
+  if (extracted.time.value && extracted.time.confidence > 0.5) {
+    const minutes = parseTimeToMinutes(extracted.time.value);
+    changes.time = minutes !== null ? formatMinutes(minutes) : extracted.time.value;
+  }
+  if (extracted.partySize) {
+    changes.partySize = extracted.partySize;
+  }
+  return changes;
+}
+
+function hasChanges(changes: BookingManagementState["changes"]): boolean {
+  return changes.date !== undefined || changes.time !== undefined || changes.partySize !== undefined;
+}
+
+/**
+ * Apply the requested changes to the picked booking
+ */
+async function applyModification(
+  state: BookingManagementState,
+  booking: Booking,
+  deps: DialogueDeps
+): Promise<ManagementStep> {
+  const write = await deps.modifyBooking(booking.id, state.changes);
+
+  if (!write.ok) {
+    const alternatives = write.result?.alternatives || [];
+    return {
+      // Keep the booking picked but drop the changes so the user can try other values
+      state: { ...state, changes: {} },
+      text:
+        `That change doesn't fit: ${formatBookingSummary({ ...booking, ...state.changes })} isn't available.` +
+        (alternatives.length > 0 ? ` Open times that day: ${alternatives.join(", ")}.` : "") +
+        ` Tell me another date, time or party size, or 'never mind' to keep it as is.`,
+    };
+  }
+
+  const updated = write.booking;
+  return {
+    state: null,
+    text:
+      updated.status === "waitlisted"
+        ? `Updated, but that slot is full so you're still on the waitlist: ${formatBookingSummary(updated)}.`
+        : `Updated: ${formatBookingSummary(updated)}. New confirmation: ${updated.confirmationId}.\nUpdated calendar event: ${getBookingIcsPath(updated.id)}`,
+  };
+}
+
+function getCancelPrompt(booking: Booking): string {
+  return booking.seriesId
+    ? "Reply 'this one' to cancel just this date, 'all' to cancel every remaining date, or 'no' to keep it."
+    : "Reply 'yes' to cancel or 'no' to keep it.";
+}
+
+/**
+ * Move the flow forward once a booking is picked
+ */
+async function continueWithBooking(
+  state: BookingManagementState,
+  booking: Booking,
+  deps: DialogueDeps
+): Promise<ManagementStep> {
+  if (state.action === "cancel") {
+    return {
+      state: { ...state, bookingId: booking.id, awaitingConfirm: true },
+      text: `Cancel ${formatBookingSummary(booking)}? ${getCancelPrompt(booking)}`,
+    };
+  }
+
+  const picked = { ...state, bookingId: booking.id };
+  if (!hasChanges(picked.changes)) {
+    return {
+      state: picked,
+      text: `What should change for ${formatBookingSummary(booking)}? Tell me the new date, time or party size.`,
+    };
+  }
+  return applyModification(picked, booking, deps);
+}
+
+/**
+ * Start a cancel/modify flow: list upcoming bookings, or go straight on if there's only one
+ */
+export async function startManagement(
+  account: Account,
+  action: BookingManagementState["action"],
+  changes: BookingManagementState["changes"],
+  deps: DialogueDeps
+): Promise<ManagementStep> {
+  const upcoming = (await deps.listBookings(account))
+    .filter((b) => isUpcoming(b))
+    .sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`));
+
+  if (upcoming.length === 0) {
+    return { state: null, text: "You don't have any upcoming bookings. Want me to find you a table?" };
+  }
+
+  const state: BookingManagementState = {
+    action,
+    candidateIds: upcoming.map((b) => b.id),
+    bookingId: null,
+    changes,
+    awaitingConfirm: false,
+  };
+
+  if (upcoming.length === 1) {
+    return continueWithBooking(state, upcoming[0], deps);
+  }
+
+  const list = upcoming.map((b, idx) => `${idx + 1}) ${formatBookingSummary(b)}`).join("\n");
+  const verb = action === "cancel" ? "cancel" : "change";
+  return { state, text: `Which booking do you want to ${verb}?\n${list}\nReply with the number.` };
+}
+
+/**
+ * Handle a reply while a cancel/modify flow is in progress
+ */
+export async function continueManagement(
+  account: Account,
+  state: BookingManagementState,
+  userText: string,
+  deps: DialogueDeps
+): Promise<ManagementStep> {
+  const lower = userText.toLowerCase().trim();
+
+  if (["never mind", "nevermind", "stop", "exit", "keep it"].includes(lower)) {
+    return { state: null, text: "OK, I left your bookings as they are." };
+  }
+
+  const bookings = await deps.listBookings(account);
+
+  // Step 1: pick a booking from the list
+  if (!state.bookingId) {
+    const pickMatch = lower.match(/^(?:#\s*)?(\d{1,2})$/);
+    const pickedId = pickMatch ? state.candidateIds[parseInt(pickMatch[1]) - 1] : undefined;
+    const booking = bookings.find((b) => b.id === pickedId);
+    if (!booking) {
+      return {
+        state,
+        text: `Reply with a number from 1 to ${state.candidateIds.length}, or 'never mind' to stop.`,
+      };
+    }
+    return continueWithBooking(state, booking, deps);
+  }
+
+  const booking = bookings.find((b) => b.id === state.bookingId);
+  if (!booking || booking.status === "cancelled") {
+    return { state: null, text: "That booking is no longer active." };
+  }
+
+  // Step 2a: confirm a cancellation
+  if (state.action === "cancel") {
+    if (booking.seriesId && ["all", "all of them", "series", "whole series", "the series"].includes(lower)) {
+      const cancelled = await deps.cancelBookingSeries(booking.seriesId);
+      const dates = cancelled.map((b) => b.date).join(", ");
+      return {
+        state: null,
+        text: `Cancelled ${cancelled.length} ${cancelled.length === 1 ? "date" : "dates"} of the series: ${dates}.`,
+      };
+    }
+    if (["yes", "y", "confirm", "this one", "just this one", "only this one"].includes(lower)) {
+      const cancelled = await deps.cancelBooking(booking.id);
+      return { state: null, text: `Cancelled: ${formatBookingSummary(cancelled)}.` };
+    }
+    if (lower === "no" || lower === "n") {
+      return { state: null, text: "OK, I kept your booking." };
+    }
+    return { state, text: getCancelPrompt(booking) };
+  }
+
+  // Step 2b: collect the new values for a modification
+  const classification = await deps.classifyAndExtract(userText);
+  const changes = changesFromExtraction(classification.extracted);
+  if (!hasChanges(changes)) {
+    return { state, text: "Tell me the new date, time or party size, or 'never mind' to keep it as is." };
+  }
+  return applyModification({ ...state, changes }, booking, deps);
+}
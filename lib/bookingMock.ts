@@ -1,64 +1,93 @@
 /**
  * Mock booking function for demo purposes
- * Generates deterministic confirmation IDs
+ * Checks the local availability model and issues confirmation codes
  */
 
+import type { Account, Booking } from "@/types";
+import {
+  checkAvailability,
+  canJoinWaitlist,
+  findNearbySlots,
+  formatMinutes,
+  getRestaurantById,
+  parseTimeToMinutes,
+  type AvailabilityStatus,
+} from "./availability";
+import { nextConfirmationCode } from "./confirmationCode";
+
 export interface BookingInput {
+  account: Account;
   restaurantId: string;
   partySize: number;
+  date: string;
   time: string;
 }
 
 export interface BookingResult {
-  confirmationId: string;
+  status: "confirmed" | "waitlisted" | "rejected";
+  /** Only set for confirmed bookings */
+  confirmationId: string | null;
   restaurantId: string;
   partySize: number;
+  date: string;
   time: string;
-}
-
-/**
- * Generate a deterministic confirmation ID based on restaurant and time
- * Format: BK-XXXXXX (6 alphanumeric characters)
- */
-function generateConfirmationId(restaurantId: string, time: string): string {
-  // Create a simple hash from restaurantId and time for determinism
-  const input = `${restaurantId}-${time}`;
-  let hash = 0;
-  for (let i = 0; i < input.length; i++) {
-    const char = input.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  
-  // Convert to positive and create 6-char alphanumeric string
-  const absHash = Math.abs(hash);
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Exclude confusing chars
-  let result = 'BK-';
-  let num = absHash;
-  
-  for (let i = 0; i < 6; i++) {
-    result += chars[num % chars.length];
-    num = Math.floor(num / chars.length);
-  }
-  
-  return result;
+  /** Why the booking was not confirmed */
+  reason?: AvailabilityStatus | "unknown_restaurant" | "walk_in_only";
+  /** Open times on the same date, offered when the requested slot is not confirmed */
+  alternatives: string[];
 }
 
 /**
  * Mock booking function
- * Returns a booking confirmation
+ * Confirms when seats are free, waitlists when the slot is full but the waitlist has room,
+ * and rejects otherwise. Existing bookings are passed in so the caller owns storage;
+ * reservedCodes are codes that must not be issued again (e.g. the booking's own previous code).
  */
-export async function bookMock(input: BookingInput): Promise<BookingResult> {
+export async function bookMock(
+  input: BookingInput,
+  existingBookings: Booking[],
+  reservedCodes: string[] = []
+): Promise<BookingResult> {
   // Simulate async operation
   await new Promise(resolve => setTimeout(resolve, 100));
-  
-  const confirmationId = generateConfirmationId(input.restaurantId, input.time);
-  
-  return {
-    confirmationId,
+
+  const restaurant = getRestaurantById(input.restaurantId);
+  // Store times as HH:mm, with a bare hour ("9") read against the restaurant's hours
+  const minutes = restaurant ? parseTimeToMinutes(input.time, restaurant) : null;
+  const base = {
     restaurantId: input.restaurantId,
     partySize: input.partySize,
-    time: input.time,
+    date: input.date,
+    time: minutes !== null ? formatMinutes(minutes) : input.time,
   };
-}
 
+  if (!restaurant) {
+    return { ...base, status: "rejected", confirmationId: null, reason: "unknown_restaurant", alternatives: [] };
+  }
+  if (!restaurant.bookingAvailable) {
+    return { ...base, status: "rejected", confirmationId: null, reason: "walk_in_only", alternatives: [] };
+  }
+
+  const availability = checkAvailability(restaurant, input.date, base.time, input.partySize, existingBookings);
+
+  if (availability.status === "available") {
+    const existingCodes = existingBookings
+      .flatMap((b) => [b.confirmationId, ...(b.previousConfirmationIds || [])])
+      .filter((id): id is string => !!id)
+      .concat(reservedCodes);
+    return {
+      ...base,
+      status: "confirmed",
+      confirmationId: nextConfirmationCode(input.account, input.date, existingCodes),
+      alternatives: [],
+    };
+  }
+
+  const alternatives = findNearbySlots(restaurant, input.date, base.time, input.partySize, existingBookings);
+
+  if (canJoinWaitlist(availability, input.partySize)) {
+    return { ...base, status: "waitlisted", confirmationId: null, reason: "full", alternatives };
+  }
+
+  return { ...base, status: "rejected", confirmationId: null, reason: availability.status, alternatives };
+}
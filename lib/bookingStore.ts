@@ -0,0 +1,446 @@
+import type { Account, ActiveRequest, Booking, RecurrenceRule, WaitlistEntry } from "@/types";
+import { bookMock, type BookingInput, type BookingResult } from "./bookingMock";
+import { getDataFile, readJsonFile, writeJsonFile, withWriteLock } from "./fileStore";
+import { readWaitlist, writeWaitlist, enqueue, dequeue, getWaitlistKey } from "./waitlistStore";
+import { readInbox, writeInbox, postToInbox } from "./inboxStore";
+import { getRestaurantById, getVenueToday, sittingsOverlap } from "./availability";
+import { getBookingIcsPath } from "./ics";
+import { expandRecurrence } from "./recurrence";
+
+/**
+ * File-based booking store (server-side only)
+ * Bookings live in a single JSON file so they survive restarts and are shared by every client
+ */
+
+const BOOKINGS_FILE = getDataFile(process.env.BOOKINGS_FILE, "bookings.json");
+
+export interface CreateBookingInput extends BookingInput {
+  notes?: string;
+  /** Chat request behind the booking, kept on the waitlist if the slot is full */
+  request?: ActiveRequest;
+}
+
+export interface ModifyBookingInput {
+  date?: string;
+  time?: string;
+  partySize?: number;
+  notes?: string;
+}
+
+export interface CreateSeriesInput extends CreateBookingInput {
+  recurrence: RecurrenceRule;
+}
+
+export type SeriesWriteResult =
+  | { ok: true; seriesId: string; bookings: Booking[]; skipped: BookingResult[] }
+  | { ok: false; error: "unavailable"; skipped: BookingResult[] };
+
+export type BookingWriteResult =
+  | { ok: true; booking: Booking; result: BookingResult }
+  | { ok: false; error: "not_found" | "cancelled"; result?: undefined }
+  | { ok: false; error: "unavailable"; result: BookingResult };
+
+function newBookingId(): string {
+  return `booking-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+async function readAll(): Promise<Booking[]> {
+  return readJsonFile<Booking[]>(BOOKINGS_FILE, []);
+}
+
+async function writeAll(bookings: Booking[]): Promise<void> {
+  await writeJsonFile(BOOKINGS_FILE, bookings);
+}
+
+/**
+ * Rebuild a request from the booking itself when the caller didn't send one
+ */
+function requestFromBooking(booking: Booking): ActiveRequest {
+  return {
+    area: getRestaurantById(booking.restaurantId)?.area ?? null,
+    cuisine: null,
+    budget: null,
+    partySize: booking.partySize,
+    date: booking.date,
+    time: booking.time,
+    notes: booking.notes ?? null,
+  };
+}
+
+function toWaitlistEntry(booking: Booking, request: ActiveRequest): WaitlistEntry {
+  return {
+    bookingId: booking.id,
+    account: booking.account,
+    restaurantId: booking.restaurantId,
+    date: booking.date,
+    time: booking.time,
+    partySize: booking.partySize,
+    request,
+    ts: Date.now(),
+  };
+}
+
+/**
+ * Seats freed up at a slot: confirm every waitlisted party that now fits, oldest first,
+ * and tell each account in chat. Parties waiting for a time whose sitting overlaps the slot count too.
+ * Mutates bookings, waitlist and inbox in place.
+ */
+async function promoteFromWaitlist(
+  bookings: Booking[],
+  waitlist: Awaited<ReturnType<typeof readWaitlist>>,
+  inbox: Awaited<ReturnType<typeof readInbox>>,
+  slot: { restaurantId: string; date: string; time: string }
+): Promise<Booking[]> {
+  const restaurant = getRestaurantById(slot.restaurantId);
+  if (!restaurant) return [];
+
+  const prefix = getWaitlistKey(slot.restaurantId, slot.date, "");
+  const queued = Object.keys(waitlist)
+    .filter((key) => key.startsWith(prefix))
+    .reduce<WaitlistEntry[]>((all, key) => [...all, ...waitlist[key]], [])
+    .filter((entry) => sittingsOverlap(restaurant, entry.time, slot.time))
+    .sort((a, b) => a.ts - b.ts);
+
+  const promoted: Booking[] = [];
+  for (const entry of queued) {
+    const index = bookings.findIndex((b) => b.id === entry.bookingId);
+    if (index === -1 || bookings[index].status !== "waitlisted") {
+      // Stale entry (booking gone, cancelled or already confirmed)
+      dequeue(waitlist, entry.bookingId);
+      continue;
+    }
+
+    const waiting = bookings[index];
+    const others = bookings.filter((b) => b.id !== waiting.id);
+    const result = await bookMock(
+      {
+        account: waiting.account,
+        restaurantId: waiting.restaurantId,
+        date: waiting.date,
+        time: waiting.time,
+        partySize: waiting.partySize,
+      },
+      others
+    );
+    // Bigger parties further up the queue may still not fit; keep looking for ones that do
+    if (result.status !== "confirmed") continue;
+
+    const booking: Booking = {
+      ...waiting,
+      status: "confirmed",
+      confirmationId: result.confirmationId || undefined,
+      updatedTs: Date.now(),
+    };
+    bookings[index] = booking;
+    dequeue(waitlist, booking.id);
+    promoted.push(booking);
+
+    const name = restaurant.name || "the restaurant";
+    postToInbox(
+      inbox,
+      booking.account,
+      `Good news: a table opened up at ${name} on ${booking.date} at ${booking.time} for ${booking.partySize}. ` +
+        `You're off the waitlist. Confirmation: ${booking.confirmationId}\nAdd to calendar: ${getBookingIcsPath(booking.id)}`
+    );
+  }
+
+  return promoted;
+}
+
+/**
+ * List bookings, optionally for one account, newest first
+ */
+export async function listBookings(account?: Account): Promise<Booking[]> {
+  const bookings = await readAll();
+  return bookings
+    .filter((b) => !account || b.account === account)
+    .sort((a, b) => b.ts - a.ts);
+}
+
+/**
+ * Get a booking by ID
+ */
+export async function getBooking(id: string): Promise<Booking | null> {
+  const bookings = await readAll();
+  return bookings.find((b) => b.id === id) || null;
+}
+
+/**
+ * Find a booking by confirmation code, current or replaced by a later change
+ * Pass a canonical code (see parseConfirmationCode)
+ */
+export async function findBookingByConfirmationId(
+  code: string
+): Promise<{ booking: Booking; current: boolean } | null> {
+  const bookings = await readAll();
+  const booking = bookings.find(
+    (b) => b.confirmationId === code || (b.previousConfirmationIds || []).includes(code)
+  );
+  return booking ? { booking, current: booking.confirmationId === code } : null;
+}
+
+/**
+ * Create a booking after checking availability
+ * Confirmed and waitlisted bookings are stored; rejected ones are not.
+ * Waitlisted bookings are also queued on the waitlist for their slot.
+ */
+export async function createBooking(input: CreateBookingInput): Promise<BookingWriteResult> {
+  return withWriteLock(async () => {
+    const bookings = await readAll();
+    const result = await bookMock(
+      {
+        account: input.account,
+        restaurantId: input.restaurantId,
+        date: input.date,
+        time: input.time,
+        partySize: input.partySize,
+      },
+      bookings
+    );
+
+    if (result.status === "rejected") {
+      return { ok: false, error: "unavailable", result };
+    }
+
+    const booking: Booking = {
+      id: newBookingId(),
+      account: input.account,
+      restaurantId: input.restaurantId,
+      date: input.date,
+      time: result.time,
+      partySize: input.partySize,
+      notes: input.notes,
+      ts: Date.now(),
+      status: result.status,
+      confirmationId: result.confirmationId || undefined,
+    };
+    bookings.push(booking);
+    await writeAll(bookings);
+
+    if (booking.status === "waitlisted") {
+      const waitlist = await readWaitlist();
+      enqueue(waitlist, toWaitlistEntry(booking, input.request ?? requestFromBooking(booking)));
+      await writeWaitlist(waitlist);
+    }
+
+    return { ok: true, booking, result };
+  });
+}
+
+/**
+ * All occurrences of a recurring booking, in date order
+ */
+export async function listBookingSeries(seriesId: string): Promise<Booking[]> {
+  const bookings = await readAll();
+  return bookings
+    .filter((b) => b.seriesId === seriesId)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Create every occurrence of a recurring booking, starting on or after input.date
+ * Each date is checked on its own: full dates are waitlisted or skipped, the rest still get booked
+ */
+export async function createBookingSeries(input: CreateSeriesInput): Promise<SeriesWriteResult> {
+  return withWriteLock(async () => {
+    const bookings = await readAll();
+    const waitlist = await readWaitlist();
+    const seriesId = `series-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const created: Booking[] = [];
+    const skipped: BookingResult[] = [];
+
+    for (const date of expandRecurrence(input.recurrence, input.date)) {
+      const result = await bookMock(
+        { account: input.account, restaurantId: input.restaurantId, date, time: input.time, partySize: input.partySize },
+        bookings
+      );
+      if (result.status === "rejected") {
+        skipped.push(result);
+        continue;
+      }
+
+      const booking: Booking = {
+        id: newBookingId(),
+        account: input.account,
+        restaurantId: input.restaurantId,
+        date,
+        time: result.time,
+        partySize: input.partySize,
+        notes: input.notes,
+        ts: Date.now(),
+        status: result.status,
+        confirmationId: result.confirmationId || undefined,
+        seriesId,
+        recurrence: input.recurrence,
+      };
+      bookings.push(booking);
+      created.push(booking);
+
+      if (booking.status === "waitlisted") {
+        enqueue(waitlist, toWaitlistEntry(booking, { ...(input.request ?? requestFromBooking(booking)), date }));
+      }
+    }
+
+    if (created.length === 0) {
+      return { ok: false, error: "unavailable", skipped };
+    }
+
+    await writeAll(bookings);
+    await writeWaitlist(waitlist);
+    return { ok: true, seriesId, bookings: created, skipped };
+  });
+}
+
+/**
+ * Mark a booking cancelled and hand a confirmed table to the waitlist
+ * Mutates bookings, waitlist and inbox in place
+ */
+async function cancelInPlace(
+  bookings: Booking[],
+  waitlist: Awaited<ReturnType<typeof readWaitlist>>,
+  inbox: Awaited<ReturnType<typeof readInbox>>,
+  index: number
+): Promise<Booking> {
+  const previous = bookings[index];
+  const cancelled: Booking = { ...previous, status: "cancelled", updatedTs: Date.now() };
+  bookings[index] = cancelled;
+
+  dequeue(waitlist, previous.id);
+  if (previous.status !== "cancelled" && previous.status !== "waitlisted") {
+    await promoteFromWaitlist(bookings, waitlist, inbox, previous);
+  }
+  return cancelled;
+}
+
+/**
+ * Cancel a booking (kept in the store with status "cancelled")
+ * A cancelled confirmed table goes to the waitlisted parties that now fit
+ */
+export async function cancelBooking(id: string): Promise<Booking | null> {
+  return withWriteLock(async () => {
+    const bookings = await readAll();
+    const index = bookings.findIndex((b) => b.id === id);
+    if (index === -1) return null;
+
+    const waitlist = await readWaitlist();
+    const inbox = await readInbox();
+    const cancelled = await cancelInPlace(bookings, waitlist, inbox, index);
+
+    await writeAll(bookings);
+    await writeWaitlist(waitlist);
+    await writeInbox(inbox);
+    return cancelled;
+  });
+}
+
+/**
+ * Cancel every remaining occurrence of a series (today onwards); past ones are left as they were
+ */
+export async function cancelBookingSeries(
+  seriesId: string,
+  today = getVenueToday()
+): Promise<Booking[] | null> {
+  return withWriteLock(async () => {
+    const bookings = await readAll();
+    if (!bookings.some((b) => b.seriesId === seriesId)) return null;
+
+    const waitlist = await readWaitlist();
+    const inbox = await readInbox();
+    const cancelled: Booking[] = [];
+    for (let index = 0; index < bookings.length; index++) {
+      const booking = bookings[index];
+      if (booking.seriesId !== seriesId || booking.status === "cancelled" || booking.date < today) continue;
+      cancelled.push(await cancelInPlace(bookings, waitlist, inbox, index));
+    }
+
+    await writeAll(bookings);
+    await writeWaitlist(waitlist);
+    await writeInbox(inbox);
+    return cancelled;
+  });
+}
+
+/**
+ * Modify date, time, party size or notes of a booking
+ * A new slot or party size is re-checked against availability (ignoring the booking's own seats)
+ * and gets a fresh confirmation ID; the old table, if confirmed, goes to the waitlist.
+ * A confirmed booking is never swapped for a waitlist place: a full slot leaves it unchanged.
+ * Notes-only changes keep the table and confirmation ID.
+ */
+export async function modifyBooking(id: string, changes: ModifyBookingInput): Promise<BookingWriteResult> {
+  return withWriteLock(async () => {
+    const bookings = await readAll();
+    const index = bookings.findIndex((b) => b.id === id);
+    if (index === -1) return { ok: false, error: "not_found" };
+
+    const current = bookings[index];
+    if (current.status === "cancelled") return { ok: false, error: "cancelled" };
+
+    const next = {
+      date: changes.date ?? current.date,
+      time: changes.time ?? current.time,
+      partySize: changes.partySize ?? current.partySize,
+    };
+    const notes = changes.notes !== undefined ? changes.notes || undefined : current.notes;
+
+    // Same slot and party: only the notes change, so the table and its code stay
+    if (next.date === current.date && next.time === current.time && next.partySize === current.partySize) {
+      const booking: Booking = { ...current, notes, updatedTs: Date.now() };
+      bookings[index] = booking;
+      await writeAll(bookings);
+      const result: BookingResult = {
+        status: current.status === "waitlisted" ? "waitlisted" : "confirmed",
+        confirmationId: current.confirmationId ?? null,
+        restaurantId: current.restaurantId,
+        ...next,
+        alternatives: [],
+      };
+      return { ok: true, booking, result };
+    }
+
+    const others = bookings.filter((b) => b.id !== id);
+    const previousConfirmationIds = [...(current.previousConfirmationIds || [])];
+    if (current.confirmationId) previousConfirmationIds.push(current.confirmationId);
+    const result = await bookMock(
+      { account: current.account, restaurantId: current.restaurantId, ...next },
+      others,
+      previousConfirmationIds
+    );
+
+    // Giving up a confirmed table for a waitlist place isn't a change anyone asked for
+    if (result.status === "rejected" || (result.status === "waitlisted" && current.status !== "waitlisted")) {
+      return { ok: false, error: "unavailable", result };
+    }
+
+    const booking: Booking = {
+      ...current,
+      ...next,
+      time: result.time,
+      notes,
+      status: result.status,
+      confirmationId: result.confirmationId || undefined,
+      previousConfirmationIds: previousConfirmationIds.length > 0 ? previousConfirmationIds : undefined,
+      updatedTs: Date.now(),
+    };
+    bookings[index] = booking;
+
+    // Requeue under the new slot if still waiting, and hand the old table on if it was confirmed
+    const waitlist = await readWaitlist();
+    const inbox = await readInbox();
+    const entry = dequeue(waitlist, id);
+    if (booking.status === "waitlisted") {
+      enqueue(
+        waitlist,
+        toWaitlistEntry(booking, { ...(entry?.request ?? requestFromBooking(booking)), ...next, time: booking.time, notes: booking.notes ?? null })
+      );
+    }
+    if (current.status !== "waitlisted") {
+      await promoteFromWaitlist(bookings, waitlist, inbox, current);
+    }
+
+    await writeAll(bookings);
+    await writeWaitlist(waitlist);
+    await writeInbox(inbox);
+    return { ok: true, booking, result };
+  });
+}
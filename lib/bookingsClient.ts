@@ -0,0 +1,143 @@
+/**
+ * Client-side wrappers for booking API routes
+ */
+
+import type { Account, ActiveRequest, Booking, RecurrenceRule } from "@/types";
+import type { BookingResult } from "./bookingMock";
+import type { AvailabilityStatus } from "./availability";
+
+export type BookingWriteResponse =
+  | { ok: true; booking: Booking; result: BookingResult }
+  | { ok: false; error: string; result?: BookingResult };
+
+export async function createBookingClient(input: {
+  account: Account;
+  restaurantId: string;
+  date: string;
+  time: string;
+  partySize: number;
+  notes?: string;
+  request?: ActiveRequest;
+}): Promise<BookingWriteResponse> {
+  const response = await fetch("/api/bookings", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+
+  // 409 means the slot was rejected; the body explains why
+  if (!response.ok && response.status !== 409) {
+    throw new Error("Failed to create booking");
+  }
+
+  const body = await response.json();
+  return response.ok ? { ok: true, ...body } : { ok: false, ...body };
+}
+
+export type BookingSeriesResponse =
+  | { ok: true; seriesId: string; bookings: Booking[]; skipped: BookingResult[] }
+  | { ok: false; error: string; skipped: BookingResult[] };
+
+export async function createBookingSeriesClient(input: {
+  account: Account;
+  restaurantId: string;
+  date: string;
+  time: string;
+  partySize: number;
+  notes?: string;
+  recurrence: RecurrenceRule;
+  request?: ActiveRequest;
+}): Promise<BookingSeriesResponse> {
+  const response = await fetch("/api/bookings/series", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+
+  // 409 means no occurrence could be booked
+  if (!response.ok && response.status !== 409) {
+    throw new Error("Failed to create booking series");
+  }
+
+  const body = await response.json();
+  return response.ok ? { ok: true, ...body } : { ok: false, ...body };
+}
+
+export async function cancelBookingSeriesClient(seriesId: string): Promise<Booking[]> {
+  const response = await fetch(`/api/bookings/series/${encodeURIComponent(seriesId)}`, { method: "DELETE" });
+
+  if (!response.ok) {
+    throw new Error("Failed to cancel booking series");
+  }
+
+  const body = await response.json();
+  return body.bookings;
+}
+
+export async function listBookingsClient(account: Account): Promise<Booking[]> {
+  const response = await fetch(`/api/bookings?account=${encodeURIComponent(account)}`);
+
+  if (!response.ok) {
+    throw new Error("Failed to list bookings");
+  }
+
+  const body = await response.json();
+  return body.bookings;
+}
+
+export async function getBookingClient(id: string): Promise<Booking | null> {
+  const response = await fetch(`/api/bookings/${encodeURIComponent(id)}`);
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error("Failed to get booking");
+  }
+
+  const body = await response.json();
+  return body.booking;
+}
+
+export async function cancelBookingClient(id: string): Promise<Booking> {
+  const response = await fetch(`/api/bookings/${encodeURIComponent(id)}`, { method: "DELETE" });
+
+  if (!response.ok) {
+    throw new Error("Failed to cancel booking");
+  }
+
+  const body = await response.json();
+  return body.booking;
+}
+
+export async function modifyBookingClient(
+  id: string,
+  changes: { date?: string; time?: string; partySize?: number; notes?: string }
+): Promise<BookingWriteResponse> {
+  const response = await fetch(`/api/bookings/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(changes),
+  });
+
+  if (!response.ok && response.status !== 409) {
+    throw new Error("Failed to modify booking");
+  }
+
+  const body = await response.json();
+  return response.ok ? { ok: true, ...body } : { ok: false, ...body };
+}
+
+export async function checkAvailabilityClient(
+  restaurantId: string,
+  date: string,
+  time: string,
+  partySize: number
+): Promise<{ status: AvailabilityStatus; seatsLeft: number; nearbySlots: string[]; waitlistOpen: boolean }> {
+  const params = new URLSearchParams({ restaurantId, date, time, partySize: String(partySize) });
+  const response = await fetch(`/api/bookings/availability?${params.toString()}`);
+
+  if (!response.ok) {
+    throw new Error("Failed to check availability");
+  }
+
+  return response.json();
+}
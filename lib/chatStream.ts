@@ -0,0 +1,62 @@
+import type { Account, DialogueState } from "@/types";
+import { reduceTurn, getTurnReply } from "./newConversation";
+import { fileConversationStore } from "./conversationFileStore";
+import { createServerDialogueDeps } from "./serverDialogueDeps";
+
+/**
+ * One chat turn as server-sent events (server-side only, see POST /api/chat/stream)
+ * Events: typing { stage } as each pipeline stage starts, delta { text } per piece of the reply,
+ * then done (the /api/chat payload) or error
+ */
+
+// Rough size of a delta; pieces break between words
+const DELTA_CHARS = 24;
+
+/**
+ * Split a reply into pieces of about DELTA_CHARS at word boundaries; joined they give the text back
+ */
+export function splitReply(text: string, size = DELTA_CHARS): string[] {
+  const pieces: string[] = [];
+  let current = "";
+  (text.match(/\S+\s*|\s+/g) || []).forEach((word) => {
+    if (current && current.length + word.length > size) {
+      pieces.push(current);
+      current = "";
+    }
+    current += word;
+  });
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Run the turn and stream it. Without state the account's server conversation is used and saved;
+ * with state (the browser's) nothing is saved and done carries the new state back
+ */
+export function createTurnStream(input: { account: Account; text: string; state?: DialogueState }): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        const state = input.state ?? (await fileConversationStore.load(input.account));
+        const result = await reduceTurn(state, input.text, createServerDialogueDeps(input.account), (stage) =>
+          send("typing", { stage })
+        );
+        if (!input.state) await fileConversationStore.save(input.account, result.state);
+
+        const reply = getTurnReply(result);
+        splitReply(reply.message.text).forEach((text) => send("delta", { text }));
+        send("done", input.state ? { ...reply, state: result.state } : reply);
+      } catch (error) {
+        console.error("Chat stream error:", error);
+        send("error", { error: "Failed to process message" });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+}
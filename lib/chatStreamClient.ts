@@ -0,0 +1,66 @@
+/**
+ * Client-side wrapper for the streaming chat route (server-sent events)
+ */
+
+import type { Account, DialogueState, DialogueStageName } from "@/types";
+import type { TurnReply } from "./newConversation";
+
+/** Final event; state comes back when the caller sent its own */
+export type ChatStreamDone = TurnReply & { state?: DialogueState };
+
+export interface ChatStreamHandlers {
+  /** A pipeline stage started (typing indicator) */
+  onTyping?: (stage: DialogueStageName) => void;
+  /** The next piece of the assistant's reply, to append; every piece comes before the final payload */
+  onDelta?: (text: string) => void;
+}
+
+export async function streamChatClient(
+  input: { account: Account; text: string; state?: DialogueState },
+  handlers: ChatStreamHandlers = {}
+): Promise<ChatStreamDone> {
+  const response = await fetch("/api/chat/stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error("Failed to stream chat");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let done: ChatStreamDone | null = null;
+
+  for (;;) {
+    const { value, done: finished } = await reader.read();
+    if (value) buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const raw = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      const event = raw.match(/^event: (.+)$/m)?.[1];
+      const data = raw.match(/^data: (.+)$/m)?.[1];
+      if (!event || !data) continue;
+
+      const payload = JSON.parse(data);
+      if (event === "typing") handlers.onTyping?.(payload.stage);
+      else if (event === "delta") handlers.onDelta?.(payload.text);
+      else if (event === "done") done = payload;
+      else if (event === "error") throw new Error(payload.error);
+    }
+
+    if (finished) break;
+  }
+
+  if (!done) {
+    throw new Error("Chat stream ended without a reply");
+  }
+  return done;
+}
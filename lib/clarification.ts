@@ -0,0 +1,102 @@
+import type { Clarification } from "@/types";
+
+/**
+ * "Did you mean Al Wasl or Al Barsha?" for area and cuisine values we aren't sure about
+ * - Confident matches are used as they are; unsure ones (the middle band) are asked about
+ * - The pick is saved as an alias so the same input matches straight away next time
+ */
+
+// Confidence above max: use the match; between min and max: ask; at or below min: ignore
+export const CLARIFY_BAND = { min: 0.3, max: 0.6 };
+
+const MAX_OPTIONS = 2;
+
+export function isUnsure(confidence: number): boolean {
+  return confidence > CLARIFY_BAND.min && confidence <= CLARIFY_BAND.max;
+}
+
+/**
+ * Lowercased, trimmed, punctuation-free input: the key an alias is stored under
+ */
+export function normalizeAliasInput(input: string): string {
+  return input
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function getBigrams(text: string): string[] {
+  const compact = normalizeAliasInput(text).replace(/ /g, "");
+  const bigrams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    bigrams.push(compact.slice(i, i + 2));
+  }
+  return bigrams;
+}
+
+/**
+ * Dice similarity of two strings' letter pairs, 0-1
+ */
+export function similarity(a: string, b: string): number {
+  const left = getBigrams(a);
+  const right = getBigrams(b);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const remaining = [...right];
+  let shared = 0;
+  for (const bigram of left) {
+    const index = remaining.indexOf(bigram);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+}
+
+/**
+ * Options to offer for an unsure value: the model's guess first, then the closest other choices
+ */
+export function rankChoices(input: string, choices: string[], preferred: string | null): string[] {
+  const others = choices
+    .filter((choice) => choice !== preferred)
+    .map((choice) => ({ choice, score: similarity(input, choice) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ choice }) => choice);
+  const ranked = preferred && choices.includes(preferred) ? [preferred, ...others] : others;
+  return ranked.slice(0, MAX_OPTIONS);
+}
+
+export function getClarificationQuestion(clarification: Clarification): string {
+  const { options } = clarification;
+  if (options.length === 1) return `Did you mean ${options[0]}?`;
+  return `Did you mean ${options.slice(0, -1).join(", ")} or ${options[options.length - 1]}?`;
+}
+
+/**
+ * Which option a reply picks: "2", "Al Barsha", "the first one", or "yes" when there's only one
+ */
+export function matchClarificationOption(lower: string, options: string[]): string | null {
+  const text = normalizeAliasInput(lower);
+  const ordinals = ["first", "second", "third"];
+
+  const number = text.match(/^(\d)$/);
+  if (number) return options[parseInt(number[1]) - 1] ?? null;
+
+  const ordinal = ordinals.findIndex((word) => new RegExp(`\\b${word}\\b`).test(text));
+  if (ordinal !== -1) return options[ordinal] ?? null;
+
+  // Longest name first, so "palm jumeirah" isn't taken for "Jumeirah"
+  const named = [...options]
+    .sort((a, b) => b.length - a.length)
+    .find((option) => text.includes(normalizeAliasInput(option)));
+  if (named) return named;
+
+  if (options.length === 1 && /^(?:yes|yeah|yep|yup|correct|right|that one)\b/.test(text)) return options[0];
+  return null;
+}
+
+export function isClarificationRejection(lower: string): boolean {
+  return /^(?:no|nope|neither|none|not really)\b/.test(normalizeAliasInput(lower));
+}
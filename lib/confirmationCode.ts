@@ -0,0 +1,131 @@
+import type { Account } from "@/types";
+import { getVenueToday } from "./availability";
+
+/**
+ * Booking confirmation codes
+ * Format: BK-<account><yymmdd>-<sequence><check>, e.g. BK-D261201-003K
+ * - account: one letter per account
+ * - yymmdd: the booking date (or the day it was made, if the date isn't yyyy-mm-dd)
+ * - sequence: 3 characters, counting up per account and date
+ * - check: Luhn mod 32 over everything after "BK-", which catches any single wrong
+ *   character and nearly all swapped neighbours
+ * Characters use Crockford base32, so O/I/L typed by mistake read as 0/1/1.
+ */
+
+const ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const SEQUENCE_LENGTH = 3;
+const MAX_SEQUENCE = ALPHABET.length ** SEQUENCE_LENGTH - 1;
+
+const ACCOUNT_LETTERS: Record<Account, string> = {
+  danny: "D",
+  raphael: "R",
+};
+
+export interface ConfirmationCodeParts {
+  account: Account;
+  /** yyyy-mm-dd */
+  date: string;
+  sequence: number;
+}
+
+export type ParsedConfirmationCode =
+  | ({ ok: true; code: string } & ConfirmationCodeParts)
+  | { ok: false; error: "format" | "checksum" };
+
+/**
+ * Luhn mod N check character for a payload of ALPHABET characters
+ */
+function checkCharacter(payload: string): string {
+  const n = ALPHABET.length;
+  let factor = 2;
+  let sum = 0;
+  for (let i = payload.length - 1; i >= 0; i--) {
+    let addend = factor * ALPHABET.indexOf(payload[i]);
+    factor = factor === 2 ? 1 : 2;
+    addend = Math.floor(addend / n) + (addend % n);
+    sum += addend;
+  }
+  return ALPHABET[(n - (sum % n)) % n];
+}
+
+function encodeSequence(sequence: number): string {
+  let result = "";
+  let num = sequence;
+  for (let i = 0; i < SEQUENCE_LENGTH; i++) {
+    result = ALPHABET[num % ALPHABET.length] + result;
+    num = Math.floor(num / ALPHABET.length);
+  }
+  return result;
+}
+
+function decodeSequence(encoded: string): number {
+  return encoded.split("").reduce((num, char) => num * ALPHABET.length + ALPHABET.indexOf(char), 0);
+}
+
+/**
+ * yymmdd for a booking date; dates that aren't yyyy-mm-dd fall back to today
+ */
+function toDateSegment(date: string): string {
+  const iso = /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : getVenueToday();
+  return iso.slice(2).replace(/-/g, "");
+}
+
+/**
+ * Build a code from its parts
+ */
+export function formatConfirmationCode(parts: ConfirmationCodeParts): string {
+  const payload = `${ACCOUNT_LETTERS[parts.account]}${toDateSegment(parts.date)}${encodeSequence(parts.sequence)}`;
+  const check = checkCharacter(payload);
+  return `BK-${payload.slice(0, 7)}-${payload.slice(7)}${check}`;
+}
+
+/**
+ * Parse and verify a code typed by a user or support agent
+ * Case, spaces, missing dashes and Crockford look-alikes are tolerated
+ */
+export function parseConfirmationCode(input: string): ParsedConfirmationCode {
+  const compact = input.toUpperCase().replace(/[\s-]/g, "");
+  if (!compact.startsWith("BK")) return { ok: false, error: "format" };
+
+  const body = compact.slice(2).replace(/O/g, "0").replace(/[IL]/g, "1");
+  const match = body.match(/^([A-Z])(\d{6})([0-9A-Z]{3})([0-9A-Z])$/);
+  if (!match) return { ok: false, error: "format" };
+
+  const [, letter, yymmdd, sequence, check] = match;
+  const account = (Object.keys(ACCOUNT_LETTERS) as Account[]).find((a) => ACCOUNT_LETTERS[a] === letter);
+  if (!account || `${sequence}${check}`.split("").some((c) => !ALPHABET.includes(c))) {
+    return { ok: false, error: "format" };
+  }
+
+  if (checkCharacter(`${letter}${yymmdd}${sequence}`) !== check) {
+    return { ok: false, error: "checksum" };
+  }
+
+  return {
+    ok: true,
+    code: `BK-${letter}${yymmdd}-${sequence}${check}`,
+    account,
+    date: `20${yymmdd.slice(0, 2)}-${yymmdd.slice(2, 4)}-${yymmdd.slice(4, 6)}`,
+    sequence: decodeSequence(sequence),
+  };
+}
+
+/**
+ * Next unused code for an account and date
+ * The sequence continues from the highest one already issued, so cancelled codes are never reused
+ */
+export function nextConfirmationCode(account: Account, date: string, existingCodes: string[]): string {
+  const prefix = formatConfirmationCode({ account, date, sequence: 0 }).slice(0, 10);
+
+  let highest = 0;
+  for (const code of existingCodes) {
+    if (!code.startsWith(prefix)) continue;
+    const parsed = parseConfirmationCode(code);
+    if (parsed.ok) highest = Math.max(highest, parsed.sequence);
+  }
+
+  if (highest >= MAX_SEQUENCE) {
+    throw new Error(`No confirmation codes left for ${account} on ${date}`);
+  }
+  return formatConfirmationCode({ account, date, sequence: highest + 1 });
+}
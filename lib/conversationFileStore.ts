@@ -0,0 +1,25 @@
+import type { Account, DialogueState } from "@/types";
+import { getDataFile, readJsonFile, writeJsonFile, withWriteLock } from "./fileStore";
+import { createEmptyDialogueState, type ConversationStore } from "./conversationStore";
+
+/**
+ * File-backed conversation store (server-side only): one DialogueState per account
+ */
+
+const CONVERSATIONS_FILE = getDataFile(process.env.CONVERSATIONS_FILE, "conversations.json");
+
+type Conversations = Partial<Record<Account, DialogueState>>;
+
+export const fileConversationStore: ConversationStore = {
+  async load(account) {
+    const conversations = await readJsonFile<Conversations>(CONVERSATIONS_FILE, {});
+    return conversations[account] ?? createEmptyDialogueState();
+  },
+  async save(account, state) {
+    await withWriteLock(async () => {
+      const conversations = await readJsonFile<Conversations>(CONVERSATIONS_FILE, {});
+      conversations[account] = state;
+      await writeJsonFile(CONVERSATIONS_FILE, conversations);
+    });
+  },
+};
@@ -0,0 +1,103 @@
+import type { Account, ActiveRequest, DialogueState, ConversationFlow } from "@/types";
+import {
+  getActiveRequest,
+  saveActiveRequest,
+  getMode,
+  saveMode,
+  getPendingSlot,
+  savePendingSlot,
+  getSelectedRestaurantId,
+  saveSelectedRestaurantId,
+  getHistory,
+  saveHistory,
+  getBookingManagement,
+  saveBookingManagement,
+  getConversationFlow,
+  saveConversationFlow,
+  getUndoStack,
+  saveUndoStack,
+  getRequestQueue,
+  saveRequestQueue,
+  getClarification,
+  saveClarification,
+} from "./storage";
+import { DEFAULT_FLOW } from "./dialoguePipeline";
+
+/**
+ * Where a conversation's DialogueState is kept between turns
+ * - browser: the existing localStorage keys (history and request are shared by both accounts)
+ * - memory: a Map, for scripts and tests
+ * - file: .data/conversations.json on the server (lib/conversationFileStore.ts)
+ */
+export interface ConversationStore {
+  load(account: Account): Promise<DialogueState>;
+  save(account: Account, state: DialogueState): Promise<void>;
+}
+
+export function createEmptyRequest(): ActiveRequest {
+  return {
+    area: null,
+    cuisine: null,
+    budget: null,
+    partySize: null,
+    date: null,
+    time: null,
+    notes: null,
+  };
+}
+
+export function createEmptyDialogueState(flow: ConversationFlow = DEFAULT_FLOW): DialogueState {
+  return {
+    request: createEmptyRequest(),
+    mode: "collecting",
+    pendingSlot: "area",
+    selectedRestaurantId: null,
+    management: null,
+    flow,
+    history: [],
+    clarification: null,
+    queue: null,
+    undo: [],
+  };
+}
+
+export const browserConversationStore: ConversationStore = {
+  async load(account) {
+    return {
+      request: getActiveRequest(),
+      mode: getMode(),
+      pendingSlot: getPendingSlot(),
+      selectedRestaurantId: getSelectedRestaurantId(),
+      management: getBookingManagement(),
+      flow: getConversationFlow(account),
+      history: getHistory(),
+      clarification: getClarification(),
+      queue: getRequestQueue(),
+      undo: getUndoStack(),
+    };
+  },
+  async save(account, state) {
+    saveActiveRequest(state.request);
+    saveMode(state.mode);
+    savePendingSlot(state.pendingSlot);
+    saveSelectedRestaurantId(state.selectedRestaurantId);
+    saveBookingManagement(state.management);
+    saveConversationFlow(account, state.flow);
+    saveHistory(state.history);
+    saveClarification(state.clarification ?? null);
+    saveRequestQueue(state.queue ?? null);
+    saveUndoStack(state.undo ?? []);
+  },
+};
+
+export function createMemoryConversationStore(): ConversationStore {
+  const states = new Map<Account, DialogueState>();
+  return {
+    async load(account) {
+      return structuredClone(states.get(account) ?? createEmptyDialogueState());
+    },
+    async save(account, state) {
+      states.set(account, structuredClone(state));
+    },
+  };
+}
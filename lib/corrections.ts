@@ -0,0 +1,62 @@
+import type { ActiveRequest } from "@/types";
+import { ANY, isWildcard } from "./wildcard";
+
+/**
+ * Corrections and undo in chat
+ * - "actually make it 4 people", "change it to Japanese": new values overwrite filled slots
+ * - "undo": go back to the state before the last turn
+ * Both echo what changed, e.g. "party size 2 → 4"
+ */
+
+// Undo steps kept per conversation
+export const MAX_UNDO_STEPS = 10;
+
+const CORRECTION_PATTERN =
+  /^(?:no,|nope,|wait\b|sorry\b|oops\b)|\b(?:actually|make it|make that|change (?:it |that )?to|switch (?:it |that )?to|instead|i meant|correction|rather)\b/;
+
+const UNDO_PATTERN = /^(?:undo(?: that| last)?|go back|take that back)[.!]?$/;
+
+const FIELD_LABELS: { field: keyof ActiveRequest; label: string }[] = [
+  { field: "area", label: "area" },
+  { field: "cuisine", label: "cuisine" },
+  { field: "budget", label: "budget" },
+  { field: "partySize", label: "party size" },
+  { field: "date", label: "date" },
+  { field: "time", label: "time" },
+  { field: "notes", label: "notes" },
+];
+
+/**
+ * Whether a message corrects something already said
+ */
+export function isCorrection(lower: string): boolean {
+  return CORRECTION_PATTERN.test(lower);
+}
+
+export function isUndo(lower: string): boolean {
+  return UNDO_PATTERN.test(lower);
+}
+
+function formatField(request: ActiveRequest, field: keyof ActiveRequest): string | null {
+  if (field === "budget") return isWildcard(request.budget) ? ANY : request.budget?.label ?? null;
+  const value = request[field];
+  return value === null || value === undefined ? null : String(value);
+}
+
+/**
+ * Slots that differ between two requests, e.g. ["party size 2 → 4", "time cleared"]
+ * onlyFilled: skip slots that were empty before (new answers rather than changes)
+ */
+export function describeRequestChanges(before: ActiveRequest, after: ActiveRequest, onlyFilled = false): string[] {
+  const changes: string[] = [];
+  for (const { field, label } of FIELD_LABELS) {
+    const from = formatField(before, field);
+    const to = formatField(after, field);
+    if (from === to || (onlyFilled && from === null)) continue;
+
+    if (from === null) changes.push(`${label} ${to}`);
+    else if (to === null) changes.push(`${label} cleared`);
+    else changes.push(`${label} ${from} → ${to}`);
+  }
+  return changes;
+}
@@ -0,0 +1,189 @@
+import type {
+  Account,
+  ActiveRequest,
+  Booking,
+  BookingManagementState,
+  Clarification,
+  ConversationFlow,
+  DialogueStageName,
+  PendingSlot,
+  RequestMode,
+  RequestQueue,
+  Restaurant,
+  WalkInIntent,
+} from "@/types";
+import type { classifyAndExtractClient, validateSlotClient, normalizeToDBClient, understandTurnClient } from "./gptClient";
+import type {
+  checkAvailabilityClient,
+  createBookingClient,
+  createBookingSeriesClient,
+  listBookingsClient,
+  cancelBookingClient,
+  cancelBookingSeriesClient,
+  modifyBookingClient,
+} from "./bookingsClient";
+import type { createWalkInClient } from "./walkInsClient";
+import type { saveAliasClient } from "./aliasesClient";
+
+/**
+ * Dialogue pipeline for the chat flow
+ * Every turn runs the stages of the account's flow in order until one of them answers:
+ * - manage / select / clarify / notes: replies while managing a booking, choosing a restaurant,
+ *   answering "did you mean X or Y?" or adding notes
+ * - classify → validate → normalize → plan → respond: understand free text and ask or recommend
+ * Optional stages add features on top:
+ * - notes: ask for notes (or per-guest dietary needs) before booking; without it a pick books straight away
+ * - diversify: "more" shows restaurants that haven't been offered yet
+ * - refine: "too expensive" or "change the area" reopens one slot instead of starting over
+ * - avoid: "no sushi" keeps matching restaurants out of recommendations
+ */
+
+export type Classification = Awaited<ReturnType<typeof classifyAndExtractClient>>;
+export type Normalization = Awaited<ReturnType<typeof normalizeToDBClient>>;
+export type Understanding = Awaited<ReturnType<typeof understandTurnClient>>;
+
+/**
+ * Everything a turn may call out to: language understanding, bookings, walk-ins and aliases
+ * The browser passes the fetch wrappers; the server can pass the stores directly
+ */
+export interface DialogueDeps {
+  /** Who is talking; bookings need an account */
+  account: Account | null;
+  classifyAndExtract: typeof classifyAndExtractClient;
+  validateSlot: typeof validateSlotClient;
+  normalizeToDB: typeof normalizeToDBClient;
+  /** One call in place of classify, validate and normalize; when unset, those are called in turn */
+  understandTurn?: typeof understandTurnClient;
+  checkAvailability: typeof checkAvailabilityClient;
+  createBooking: typeof createBookingClient;
+  createBookingSeries: typeof createBookingSeriesClient;
+  listBookings: typeof listBookingsClient;
+  cancelBooking: typeof cancelBookingClient;
+  cancelBookingSeries: typeof cancelBookingSeriesClient;
+  modifyBooking: typeof modifyBookingClient;
+  createWalkIn: typeof createWalkInClient;
+  /** Remember a "did you mean" pick for future matching */
+  saveAlias: typeof saveAliasClient;
+}
+
+/**
+ * Things a turn did that a caller may want to react to (show cards, refresh a bookings list, ...)
+ */
+export type DialogueEffect =
+  | { type: "recommended"; top: Restaurant; alternatives: Restaurant[] }
+  | { type: "booked"; bookings: Booking[] }
+  | { type: "walk_in"; intent: WalkInIntent };
+
+/**
+ * One user turn as it moves through the stages
+ * State fields start from what was saved and are saved back once the turn is answered
+ */
+export interface DialogueTurn {
+  userText: string;
+  /** userText trimmed and lowercased, for command matching */
+  lower: string;
+  account: Account | null;
+  flow: ConversationFlow;
+  deps: DialogueDeps;
+
+  request: ActiveRequest;
+  mode: RequestMode;
+  pendingSlot: PendingSlot;
+  selectedRestaurantId: string | null;
+  management: BookingManagementState | null;
+  clarification: Clarification | null;
+  queue: RequestQueue | null;
+
+  classification?: Classification;
+  /** The combined answer, when deps.understandTurn made one call for classify, validate and normalize */
+  understanding?: Understanding;
+  /** Pending slot value confirmed by validation */
+  validatedValue?: string | number | null;
+  normalization?: Normalization;
+  /** What respond should do: recommend, or ask for a slot */
+  plan?: { kind: "recommend" } | { kind: "ask"; slot: PendingSlot };
+
+  /** Said before the reply, e.g. what a correction changed */
+  echo?: string;
+  /** Set by the stage that answers the turn; later stages are skipped */
+  reply?: string;
+  effects: DialogueEffect[];
+}
+
+export type DialogueStage = (turn: DialogueTurn) => Promise<void>;
+
+export const FLOWS: Record<ConversationFlow, { label: string; stages: DialogueStageName[] }> = {
+  guided: {
+    label: "Guided",
+    stages: ["manage", "select", "clarify", "notes", "classify", "validate", "normalize", "plan", "respond"],
+  },
+  discovery: {
+    label: "Discovery",
+    stages: [
+      "manage",
+      "select",
+      "clarify",
+      "diversify",
+      "refine",
+      "notes",
+      "classify",
+      "validate",
+      "normalize",
+      "avoid",
+      "plan",
+      "respond",
+    ],
+  },
+  express: {
+    label: "Express",
+    stages: ["manage", "select", "clarify", "classify", "validate", "normalize", "plan", "respond"],
+  },
+};
+
+/**
+ * What the assistant is doing while a stage runs, for typing indicators
+ */
+export const STAGE_STATUS: Record<DialogueStageName, string> = {
+  manage: "Checking your booking",
+  select: "Checking your choice",
+  clarify: "Checking your answer",
+  notes: "Noting that down",
+  diversify: "Looking for more options",
+  refine: "Updating your request",
+  classify: "Reading your message",
+  validate: "Checking your answer",
+  normalize: "Matching areas and cuisines",
+  avoid: "Filtering out what you don't want",
+  plan: "Thinking",
+  respond: "Finding restaurants",
+};
+
+export const DEFAULT_FLOW: ConversationFlow = "guided";
+
+export function isConversationFlow(value: unknown): value is ConversationFlow {
+  return typeof value === "string" && Object.hasOwn(FLOWS, value);
+}
+
+/**
+ * Whether the turn's flow includes a stage
+ */
+export function hasStage(turn: Pick<DialogueTurn, "flow">, name: DialogueStageName): boolean {
+  return FLOWS[turn.flow].stages.includes(name);
+}
+
+/**
+ * Run the flow's stages in order until one sets a reply
+ * onStage is told about each stage before it runs (typing indicators)
+ */
+export async function runDialoguePipeline(
+  turn: DialogueTurn,
+  stages: Record<DialogueStageName, DialogueStage>,
+  onStage?: (name: DialogueStageName) => void
+): Promise<DialogueTurn> {
+  for (const name of FLOWS[turn.flow].stages) {
+    onStage?.(name);
+    await stages[name](turn);
+    if (turn.reply !== undefined) break;
+  }
+  return turn;
+}
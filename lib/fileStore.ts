@@ -0,0 +1,50 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * JSON file helpers shared by the server-side stores
+ */
+
+/**
+ * Resolve a store file: env override, else .data/<name>
+ */
+export function getDataFile(envValue: string | undefined, name: string): string {
+  return envValue || path.join(process.cwd(), ".data", name);
+}
+
+// One queue for every store so a write that touches several files (e.g. bookings + waitlist) stays consistent
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Serialize read-modify-write cycles so concurrent requests don't overwrite each other
+ * Don't nest calls: the inner one would wait for the outer one forever
+ */
+export function withWriteLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = writeQueue.then(fn, fn);
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Read a JSON file, or the fallback when it doesn't exist yet
+ */
+export async function readJsonFile<T>(file: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(file, "utf8");
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw error;
+  }
+}
+
+/**
+ * Write a JSON file
+ */
+export async function writeJsonFile(file: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Write to a temp file first so a crash never leaves a half-written store
+  const tmp = `${file}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data, null, 2));
+  await fs.rename(tmp, file);
+}
@@ -2,17 +2,19 @@
  * Client-side wrappers for GPT API routes
  */
 
+import type { AdditionalRequest, ExtractedPreferences, TurnUnderstanding, UnderstandTurnInput } from "./gptPrompts";
+
 export async function classifyAndExtractClient(userMessage: string): Promise<{
-  intent: "greeting_or_offtopic" | "restaurant_request" | "slot_answer" | "refinement" | "other";
-  extracted: {
-    area: { value: string | null; confidence: number };
-    cuisine: { value: string | null; confidence: number };
-    budget: { label: string | null; range: 1 | 2 | 3 | 4 | null };
-    partySize: number | null;
-    date: { value: string | null; confidence: number };
-    time: { value: string | null; confidence: number };
-    notes: string | null;
-  };
+  intent:
+    | "greeting_or_offtopic"
+    | "restaurant_request"
+    | "slot_answer"
+    | "refinement"
+    | "cancel_booking"
+    | "modify_booking"
+    | "other";
+  extracted: ExtractedPreferences;
+  additionalRequests: AdditionalRequest[];
 }> {
   const response = await fetch("/api/classify-extract", {
     method: "POST",
@@ -72,3 +74,20 @@ export async function normalizeToDBClient(
 
   return response.json();
 }
+
+/**
+ * Intent, pending-slot answer and DB matches from one call; replaces the three calls above
+ */
+export async function understandTurnClient(input: UnderstandTurnInput): Promise<TurnUnderstanding> {
+  const response = await fetch("/api/understand", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to understand message");
+  }
+
+  return response.json();
+}
@@ -0,0 +1,177 @@
+import type { GroupRequirements, GuestRequirement } from "@/types";
+
+/**
+ * Group bookings: per-guest dietary needs for large parties
+ * Needs are kept in Booking.notes as one line per guest so staff can read them
+ * and the app can parse them back, e.g.
+ *   Group of 8
+ *   Guest 1: vegan
+ *   Guest 2: vegetarian, nut allergy
+ *   Other guests: no restrictions
+ *   Note: birthday cake at 10pm
+ */
+
+// Parties this size and up get the group flow
+export const GROUP_PARTY_SIZE = 6;
+
+const KNOWN_NEEDS = [
+  "vegetarian",
+  "vegan",
+  "pescatarian",
+  "halal",
+  "kosher",
+  "gluten-free",
+  "dairy-free",
+  "no pork",
+  "no alcohol",
+];
+
+const NEED_ALIASES: Record<string, string> = {
+  veg: "vegetarian",
+  veggie: "vegetarian",
+  "gluten free": "gluten-free",
+  coeliac: "gluten-free",
+  celiac: "gluten-free",
+  "dairy free": "dairy-free",
+  "lactose free": "dairy-free",
+  "lactose intolerant": "dairy-free",
+  nuts: "nut allergy",
+  "no nuts": "nut allergy",
+  "nut free": "nut allergy",
+  "nut-free": "nut allergy",
+  shellfish: "shellfish allergy",
+  "no shellfish": "shellfish allergy",
+};
+
+/**
+ * Normalize one dietary need, e.g. "Allergic to peanuts" -> "peanuts allergy"
+ */
+function normalizeNeed(text: string): string {
+  const lower = text.toLowerCase().replace(/[.!]+$/, "").trim();
+  const allergic = lower.match(/^allergic to (.+)$/);
+  if (allergic) return `${allergic[1]} allergy`;
+  return NEED_ALIASES[lower] || lower;
+}
+
+function isKnownNeed(need: string): boolean {
+  return KNOWN_NEEDS.includes(need) || / allergy$/.test(need) || /^no \w+$/.test(need);
+}
+
+/**
+ * Parse a reply like "guest 1 vegan, 2 vegetarian, guest 5: nut allergy; birthday"
+ * Counts ("2 vegetarian") go to the next guests without needs; anything unrecognized becomes the note
+ */
+export function parseGroupRequirements(text: string, partySize: number): GroupRequirements {
+  const needsByGuest = new Map<number, string[]>();
+  const noteParts: string[] = [];
+  let current: number[] = [];
+
+  const addNeed = (guests: number[], need: string) => {
+    for (const guest of guests) {
+      const needs = needsByGuest.get(guest) || [];
+      if (!needs.includes(need)) needsByGuest.set(guest, [...needs, need]);
+    }
+  };
+
+  const nextUnassigned = (count: number): number[] => {
+    const guests: number[] = [];
+    for (let guest = 1; guest <= partySize && guests.length < count; guest++) {
+      if (!needsByGuest.has(guest)) guests.push(guest);
+    }
+    return guests;
+  };
+
+  const segments = text.split(/\s*(?:[;,\n]|\band\b)\s*/i).filter((s) => s.length > 0);
+
+  for (const segment of segments) {
+    if (/^(none|no restrictions|nothing)$/i.test(segment)) continue;
+
+    const guestMatch = segment.match(/^guest\s*#?\s*(\d+)\s*[:\-]?\s*(.*)$/i);
+    if (guestMatch) {
+      const guest = parseInt(guestMatch[1]);
+      if (guest < 1 || guest > partySize) {
+        noteParts.push(segment);
+        current = [];
+        continue;
+      }
+      current = [guest];
+      if (guestMatch[2]) addNeed(current, normalizeNeed(guestMatch[2]));
+      continue;
+    }
+
+    const allMatch = segment.match(/^(?:all|everyone|everybody)\s*(?:is|are)?\s*[:\-]?\s*(.+)$/i);
+    if (allMatch && isKnownNeed(normalizeNeed(allMatch[1]))) {
+      current = Array.from({ length: partySize }, (_, i) => i + 1);
+      addNeed(current, normalizeNeed(allMatch[1]));
+      continue;
+    }
+
+    const countMatch = segment.match(/^(\d+)\s*(?:x|guests?|people|persons?|of us)?\s*(?:are|is)?\s*[:\-]?\s*(.+)$/i);
+    if (countMatch && isKnownNeed(normalizeNeed(countMatch[2]))) {
+      current = nextUnassigned(parseInt(countMatch[1]));
+      addNeed(current, normalizeNeed(countMatch[2]));
+      continue;
+    }
+
+    const need = normalizeNeed(segment);
+    if (isKnownNeed(need)) {
+      // "guest 2 vegan, nut allergy": a bare need belongs to the guest(s) just mentioned
+      if (current.length === 0) current = nextUnassigned(1);
+      addNeed(current, need);
+      continue;
+    }
+
+    noteParts.push(segment);
+    current = [];
+  }
+
+  const guests: GuestRequirement[] = Array.from(needsByGuest.entries())
+    .map(([guest, needs]) => ({ guest, needs }))
+    .sort((a, b) => a.guest - b.guest);
+
+  return { partySize, guests, note: noteParts.length > 0 ? noteParts.join(", ") : null };
+}
+
+/**
+ * Render group requirements as Booking.notes
+ */
+export function formatGroupNotes(requirements: GroupRequirements): string {
+  const lines = [`Group of ${requirements.partySize}`];
+  for (const { guest, needs } of requirements.guests) {
+    lines.push(`Guest ${guest}: ${needs.join(", ")}`);
+  }
+  if (requirements.guests.length === 0) {
+    lines.push("No dietary restrictions");
+  } else if (requirements.guests.length < requirements.partySize) {
+    lines.push("Other guests: no restrictions");
+  }
+  if (requirements.note) {
+    lines.push(`Note: ${requirements.note}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Read group requirements back out of Booking.notes, or null for ordinary notes
+ */
+export function parseGroupNotes(notes: string | undefined | null): GroupRequirements | null {
+  if (!notes) return null;
+
+  const lines = notes.split("\n");
+  const header = lines[0].match(/^Group of (\d+)$/);
+  if (!header) return null;
+
+  const guests: GuestRequirement[] = [];
+  let note: string | null = null;
+  for (const line of lines.slice(1)) {
+    const guestMatch = line.match(/^Guest (\d+): (.+)$/);
+    if (guestMatch) {
+      guests.push({ guest: parseInt(guestMatch[1]), needs: guestMatch[2].split(", ") });
+      continue;
+    }
+    const noteMatch = line.match(/^Note: (.*)$/);
+    if (noteMatch) note = noteMatch[1];
+  }
+
+  return { partySize: parseInt(header[1]), guests, note };
+}
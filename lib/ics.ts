@@ -0,0 +1,127 @@
+import type { Booking, Restaurant } from "@/types";
+import { getInventory, parseTimeToMinutes, VENUE_UTC_OFFSET_MINUTES } from "./availability";
+
+/**
+ * RFC 5545 calendar export for bookings
+ */
+
+// Remind the guest this long before the table
+const REMINDER_MINUTES = 120;
+
+/**
+ * Escape a TEXT value (RFC 5545 section 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold lines longer than 75 octets (RFC 5545 section 3.1)
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  // Continuation lines start with a space, which counts toward their 75 octets
+  let limit = 75;
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+      limit = 74;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/**
+ * Format a Date as a UTC DATE-TIME, e.g. 20261020T160000Z
+ */
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Convert a venue-local date (yyyy-mm-dd) and time into a UTC Date, or null if either can't be read
+ */
+function toUtcDate(date: string, time: string): Date | null {
+  const dateMatch = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const minutes = parseTimeToMinutes(time);
+  if (!dateMatch || minutes === null) return null;
+
+  const [, year, month, day] = dateMatch;
+  const utcMillis =
+    Date.UTC(parseInt(year), parseInt(month) - 1, parseInt(day)) + (minutes - VENUE_UTC_OFFSET_MINUTES) * 60000;
+  return new Date(utcMillis);
+}
+
+/**
+ * Build a single-event VCALENDAR for a booking
+ * Returns null when the booking's date or time isn't in a machine-readable format
+ */
+export function buildBookingIcs(booking: Booking, restaurant: Restaurant): string | null {
+  const start = toUtcDate(booking.date, booking.time);
+  if (!start) return null;
+
+  const end = new Date(start.getTime() + getInventory(restaurant).turnMinutes * 60000);
+
+  const descriptionLines = [
+    `Table for ${booking.partySize} at ${restaurant.name}`,
+    booking.status === "waitlisted"
+      ? "Status: waitlisted (not confirmed yet)"
+      : booking.confirmationId
+        ? `Confirmation: ${booking.confirmationId}`
+        : null,
+    booking.notes ? `Notes: ${booking.notes}` : null,
+  ].filter((line): line is string => !!line);
+
+  const status =
+    booking.status === "cancelled" ? "CANCELLED" : booking.status === "waitlisted" ? "TENTATIVE" : "CONFIRMED";
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Vida//Restaurant Butler//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${booking.id}@vida`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `DTSTART:${formatUtc(start)}`,
+    `DTEND:${formatUtc(end)}`,
+    // Calendar apps replace an event with the same UID only when SEQUENCE goes up
+    `SEQUENCE:${Math.floor(((booking.updatedTs ?? booking.ts) - booking.ts) / 1000)}`,
+    `SUMMARY:${escapeText(`Table at ${restaurant.name}`)}`,
+    `LOCATION:${escapeText(`${restaurant.name}, ${restaurant.area}, ${restaurant.city}`)}`,
+    `DESCRIPTION:${escapeText(descriptionLines.join("\n"))}`,
+    `STATUS:${status}`,
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    `TRIGGER:-PT${REMINDER_MINUTES}M`,
+    `DESCRIPTION:${escapeText(`Table at ${restaurant.name} in ${REMINDER_MINUTES / 60} hours`)}`,
+    "END:VALARM",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Path of the calendar download for a booking
+ */
+export function getBookingIcsPath(bookingId: string): string {
+  return `/api/bookings/${encodeURIComponent(bookingId)}/ics`;
+}
@@ -0,0 +1,23 @@
+/**
+ * Client-side wrapper for the inbox API route
+ */
+
+import type { Account, Message } from "@/types";
+
+/**
+ * Fetch and clear messages the server queued for this account (e.g. waitlist promotions)
+ */
+export async function drainInboxClient(account: Account): Promise<Message[]> {
+  const response = await fetch("/api/inbox", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ account }),
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to read inbox");
+  }
+
+  const body = await response.json();
+  return body.messages;
+}
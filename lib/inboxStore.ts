@@ -0,0 +1,49 @@
+import type { Account, Message } from "@/types";
+import { getDataFile, readJsonFile, writeJsonFile, withWriteLock } from "./fileStore";
+
+/**
+ * Per-account inbox of assistant messages raised on the server (server-side only)
+ * Chat history lives in the browser, so the chat page drains the inbox into it
+ */
+
+const INBOX_FILE = getDataFile(process.env.INBOX_FILE, "inbox.json");
+
+type Inbox = Partial<Record<Account, Message[]>>;
+
+export async function readInbox(): Promise<Inbox> {
+  return readJsonFile<Inbox>(INBOX_FILE, {});
+}
+
+export async function writeInbox(inbox: Inbox): Promise<void> {
+  await writeJsonFile(INBOX_FILE, inbox);
+}
+
+/**
+ * Queue an assistant message for an account
+ * Callers must already hold the write lock
+ */
+export function postToInbox(inbox: Inbox, account: Account, text: string): Message {
+  const message: Message = {
+    id: `msg-${Date.now()}-${Math.random().toString(36).slice(2, 8)}-inbox`,
+    role: "assistant",
+    text,
+    ts: Date.now(),
+  };
+  inbox[account] = [...(inbox[account] || []), message];
+  return message;
+}
+
+/**
+ * Take all pending messages for an account, oldest first
+ */
+export async function drainInbox(account: Account): Promise<Message[]> {
+  return withWriteLock(async () => {
+    const inbox = await readInbox();
+    const messages = inbox[account] || [];
+    if (messages.length === 0) return [];
+
+    delete inbox[account];
+    await writeInbox(inbox);
+    return messages;
+  });
+}
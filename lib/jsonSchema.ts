@@ -0,0 +1,68 @@
+/**
+ * Check a parsed JSON value against a JSON schema, for answers from providers that don't enforce one
+ * Covers the keywords the prompts in lib/prompts.ts use: type (one or a list), nullable, enum, properties,
+ * required, additionalProperties, items, minimum, maximum and pattern
+ * Returns one line per problem, e.g. `extracted.area.confidence: expected number, got string`; [] when the value fits
+ */
+
+type Schema = Record<string, unknown>;
+
+function getJsonType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  if (type === "integer") return Number.isInteger(value);
+  if (type === "number") return typeof value === "number" && Number.isFinite(value);
+  return getJsonType(value) === type;
+}
+
+export function validateJsonSchema(value: unknown, schema: Schema, path = ""): string[] {
+  const at = path || "answer";
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? [...(schema.type as string[])] : [schema.type as string];
+    if (schema.nullable === true) types.push("null");
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${at}: expected ${types.join(" or ")}, got ${getJsonType(value)}`];
+    }
+  }
+  // A null that the schema allows has nothing more to check
+  if (value === null) return [];
+
+  const errors: string[] = [];
+  // Prompts leave enum undefined when there's nothing to list
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    errors.push(`${at}: ${JSON.stringify(value)} is not one of ${JSON.stringify(schema.enum)}`);
+  }
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) errors.push(`${at}: ${value} is below ${schema.minimum}`);
+    if (typeof schema.maximum === "number" && value > schema.maximum) errors.push(`${at}: ${value} is above ${schema.maximum}`);
+  }
+  if (typeof value === "string" && typeof schema.pattern === "string" && !new RegExp(schema.pattern).test(value)) {
+    errors.push(`${at}: "${value}" doesn't match ${schema.pattern}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => errors.push(...validateJsonSchema(item, schema.items as Schema, `${path}[${i}]`)));
+  }
+
+  if (getJsonType(value) === "object") {
+    const record = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<string, Schema>;
+    const prefix = path ? `${path}.` : "";
+    ((schema.required ?? []) as string[])
+      .filter((key) => !Object.hasOwn(record, key))
+      .forEach((key) => errors.push(`${prefix}${key}: missing`));
+    Object.keys(record).forEach((key) => {
+      if (Object.hasOwn(properties, key)) {
+        errors.push(...validateJsonSchema(record[key], properties[key], `${prefix}${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${prefix}${key}: not in the schema`);
+      }
+    });
+  }
+  return errors;
+}
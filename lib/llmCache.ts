@@ -0,0 +1,156 @@
+import { createHash } from "crypto";
+import { getLLMProvider, type LLMRequest, type LLMResponse } from "./openai";
+import { readJsonFile, writeJsonFile } from "./fileStore";
+import { validateJsonSchema } from "./jsonSchema";
+import { VENUE_UTC_OFFSET_MINUTES } from "./availability";
+
+/**
+ * Cache for JSON model answers (server-side only)
+ * - Keyed by task, prompt version, model and the normalized input, so "Downtown" and " downtown" share an answer;
+ *   a prompt can narrow the input to the vars its answer depends on (understand_turn leaves out the current request)
+ * - Prompts that inject today's date put it in the key and expire at the end of that day
+ * - In memory (LRU, LLM_CACHE_SIZE entries); also on disk when LLM_CACHE_FILE is set, written at most once a second
+ * - LLM_CACHE=off turns it off
+ */
+
+interface CacheEntry {
+  data: unknown;
+  model: string;
+  expiresAt: number;
+}
+
+export interface CacheOptions {
+  /** Bump when the prompt or its schema changes, so answers to the old one aren't reused */
+  version: number;
+  /** The date injected into the prompt (YYYY-MM-DD), for date-relative prompts */
+  currentDate?: string;
+  /** The part of the request's input the answer depends on, when that isn't all of it */
+  input?: unknown;
+}
+
+const DEFAULT_SIZE = 500;
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const SAVE_DELAY_MS = 1000;
+
+const entries = new Map<string, CacheEntry>();
+let diskLoaded: Promise<void> | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+let saving: Promise<void> = Promise.resolve();
+
+function isEnabled(): boolean {
+  return process.env.LLM_CACHE !== "off";
+}
+
+function getMaxSize(): number {
+  const size = parseInt(process.env.LLM_CACHE_SIZE || "", 10);
+  return size > 0 ? size : DEFAULT_SIZE;
+}
+
+/**
+ * Lowercase and collapse whitespace in every string, and sort object keys, so equivalent inputs match
+ */
+function normalizeInput(value: unknown): unknown {
+  if (typeof value === "string") return value.toLowerCase().replace(/\s+/g, " ").trim();
+  if (Array.isArray(value)) return value.map(normalizeInput);
+  if (value && typeof value === "object") {
+    return Object.keys(value)
+      .sort()
+      .reduce<Record<string, unknown>>((result, key) => {
+        result[key] = normalizeInput((value as Record<string, unknown>)[key]);
+        return result;
+      }, {});
+  }
+  return value ?? null;
+}
+
+function getCacheKey(request: LLMRequest, model: string, options: CacheOptions): string {
+  const parts = [request.task, options.version, model, options.currentDate ?? "", normalizeInput(options.input ?? request.input)];
+  return createHash("sha256").update(JSON.stringify(parts)).digest("hex");
+}
+
+/**
+ * Date-relative answers ("tomorrow" → a date) only hold until the end of the day they were made for (venue time, like currentDate)
+ */
+function getExpiry(options: CacheOptions, now: number): number {
+  if (!options.currentDate) return now + DEFAULT_TTL_MS;
+  const dayEnd = Date.parse(`${options.currentDate}T00:00:00Z`) + (24 * 60 - VENUE_UTC_OFFSET_MINUTES) * 60 * 1000;
+  return Math.min(now + DEFAULT_TTL_MS, dayEnd);
+}
+
+/**
+ * Drop expired entries, then the least recently used ones over the size limit
+ */
+function prune(now: number): void {
+  entries.forEach((entry, key) => {
+    if (entry.expiresAt <= now) entries.delete(key);
+  });
+  const excess = entries.size - getMaxSize();
+  if (excess > 0) {
+    Array.from(entries.keys())
+      .slice(0, excess)
+      .forEach((key) => entries.delete(key));
+  }
+}
+
+async function loadFromDisk(): Promise<void> {
+  const file = process.env.LLM_CACHE_FILE;
+  if (!file) return;
+  diskLoaded ??= readJsonFile<Record<string, CacheEntry>>(file, {}).then((saved) => {
+    Object.keys(saved).forEach((key) => {
+      if (!entries.has(key)) entries.set(key, saved[key]);
+    });
+    prune(Date.now());
+  });
+  await diskLoaded;
+}
+
+/**
+ * Write the cache file a second after a miss, with any misses since then, so a burst of misses is one write
+ * Cache writes queue among themselves rather than behind the store lock, since nothing else touches the file
+ */
+function scheduleSave(): void {
+  const file = process.env.LLM_CACHE_FILE;
+  if (!file || saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    const snapshot: Record<string, CacheEntry> = {};
+    entries.forEach((entry, key) => {
+      snapshot[key] = entry;
+    });
+    saving = saving
+      .then(() => writeJsonFile(file, snapshot))
+      // The answers are still in memory; the disk copy just misses them
+      .catch((error) => console.error("LLM cache write error:", error));
+  }, SAVE_DELAY_MS);
+  // A pending write doesn't keep a script alive; at worst the file misses the last answers
+  saveTimer.unref();
+}
+
+/**
+ * completeJson through the cache; failed calls and answers that don't fit the schema aren't cached,
+ * so callers' fallbacks stay uncached too
+ */
+export async function completeJsonCached(request: LLMRequest, options: CacheOptions): Promise<LLMResponse<unknown>> {
+  const provider = getLLMProvider();
+  if (!isEnabled()) return provider.completeJson(request);
+
+  await loadFromDisk();
+  const now = Date.now();
+  const key = getCacheKey(request, provider.model, options);
+
+  const hit = entries.get(key);
+  if (hit && hit.expiresAt > now) {
+    // Re-insert to mark it as most recently used
+    entries.delete(key);
+    entries.set(key, hit);
+    return { data: structuredClone(hit.data), model: hit.model, usage: null };
+  }
+
+  const response = await provider.completeJson(request);
+  if (validateJsonSchema(response.data, request.schema).length > 0) return response;
+  entries.delete(key);
+  entries.set(key, { data: structuredClone(response.data), model: response.model, expiresAt: getExpiry(options, now) });
+  prune(now);
+  scheduleSave();
+  return response;
+}
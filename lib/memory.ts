@@ -2,13 +2,20 @@ import type { Account, Session } from "@/types";
 
 const ACCOUNT_KEY = "restaurant-concierge-account";
 
+/**
+ * Check whether a value is a known account
+ */
+export function isAccount(value: unknown): value is Account {
+  return value === "danny" || value === "raphael";
+}
+
 /**
  * Get the current account or null
  */
 export function getAccount(): Account | null {
   if (typeof window === "undefined") return null;
   const account = localStorage.getItem(ACCOUNT_KEY);
-  return account === "danny" || account === "raphael" ? account : null;
+  return isAccount(account) ? account : null;
 }
 
 /**
@@ -1,510 +1,1254 @@
-import type { ActiveRequest, RequestMode, PendingSlot, Message, Restaurant } from "@/types";
-import {
-  getActiveRequest,
-  saveActiveRequest,
-  getMode,
-  saveMode,
-  getPendingSlot,
-  savePendingSlot,
-  getSelectedRestaurantId,
-  saveSelectedRestaurantId,
-  getHistory,
-  saveHistory,
-  addBooking,
-} from "./storage";
+import type {
+  Account,
+  ActiveRequest,
+  PendingSlot,
+  Message,
+  Restaurant,
+  Booking,
+  RecurrenceRule,
+  DialogueStageName,
+  DialogueState,
+  DialogueSnapshot,
+} from "@/types";
+import { getAccount } from "./memory";
 import { getAvailableAreas } from "./parser";
 import { getAvailableCuisines } from "./restaurants";
-import { classifyAndExtractClient, validateSlotClient, normalizeToDBClient } from "./gptClient";
+import { classifyAndExtractClient, validateSlotClient, normalizeToDBClient, understandTurnClient } from "./gptClient";
 import { getTopRestaurants, generateReasons } from "./newRecommender";
 import { RESTAURANTS } from "./restaurants";
+import { parseTimeToMinutes, formatMinutes, getLargestPartySize, getVenueToday, type AvailabilityStatus } from "./availability";
+import {
+  checkAvailabilityClient,
+  createBookingClient,
+  createBookingSeriesClient,
+  listBookingsClient,
+  cancelBookingClient,
+  cancelBookingSeriesClient,
+  modifyBookingClient,
+} from "./bookingsClient";
+import type { BookingResult } from "./bookingMock";
+import { startManagement, continueManagement, changesFromExtraction } from "./bookingManagement";
+import { getBookingIcsPath } from "./ics";
+import { createWalkInClient } from "./walkInsClient";
+import { saveAliasClient } from "./aliasesClient";
+import { GROUP_PARTY_SIZE, parseGroupRequirements, formatGroupNotes } from "./groupBooking";
+import { parseRecurrence, describeRecurrence, expandRecurrence } from "./recurrence";
+import { ANY, isWildcard, isWildcardAnswer, findWildcardSlots } from "./wildcard";
+import { getNextMissingSlot, getSlotQuestion, getSlotDefinition, getSupportedChoices } from "./slotFlow";
+import { isCorrection, isUndo, describeRequestChanges, MAX_UNDO_STEPS } from "./corrections";
+import {
+  isNewSession,
+  getLastActivity,
+  hasRequestInProgress,
+  clearPastDate,
+  isResumeAnswer,
+  isRestartAnswer,
+  getWelcomeText,
+} from "./sessionExpiry";
+import {
+  isUnsure,
+  rankChoices,
+  getClarificationQuestion,
+  matchClarificationOption,
+  isClarificationRejection,
+  CLARIFY_BAND,
+} from "./clarification";
+import {
+  hasStage,
+  runDialoguePipeline,
+  type Classification,
+  type Normalization,
+  type DialogueDeps,
+  type DialogueEffect,
+  type DialogueStage,
+  type DialogueTurn,
+} from "./dialoguePipeline";
+import { browserConversationStore, createEmptyRequest } from "./conversationStore";
+import { streamChatClient, type ChatStreamHandlers } from "./chatStreamClient";
 
 /**
- * Get next missing slot in priority order
+ * Explain why a restaurant can't seat the party and offer nearby open slots
  */
-function getNextMissingSlot(request: ActiveRequest): PendingSlot {
-  if (!request.area) return "area";
-  if (!request.cuisine) return "cuisine";
-  if (!request.budget) return "budget";
-  if (!request.date) return "date";
-  if (!request.time) return "time";
-  if (!request.partySize) return "partySize";
-  return null;
+function getUnavailableText(
+  restaurant: Restaurant,
+  status: AvailabilityStatus,
+  date: string,
+  time: string,
+  nearbySlots: string[],
+  waitlistOpen = false
+): string {
+  let text: string;
+  switch (status) {
+    case "party_too_large":
+      return `${restaurant.name} can't seat a party that size. Pick another option or reply 'Continue chat' to change the party size.`;
+    case "closed":
+      text = `${restaurant.name} isn't seating at ${time}.`;
+      break;
+    case "invalid_time":
+      text = `I couldn't read "${time}" as a time.`;
+      break;
+    default:
+      text = `${restaurant.name} is fully booked at ${time} on ${date}.`;
+      if (waitlistOpen) {
+        text += ` Reply 'Waitlist' to join the waitlist for ${time} and I'll confirm you if a table frees up.`;
+      }
+  }
+  if (nearbySlots.length > 0) {
+    return `${text} Open nearby: ${nearbySlots.join(", ")}. Reply with one of those times, or pick another option.`;
+  }
+  return `${text} No open tables that day. Pick another option or reply 'Continue chat' to change the date.`;
 }
 
 /**
- * Get question text for a slot
+ * Ask for notes; groups are asked for each guest's dietary needs instead
  */
-function getSlotQuestion(slot: PendingSlot, supportedChoices?: string[]): string {
-  switch (slot) {
-    case "area":
-      return "Which area do you want to eat in?";
-    case "cuisine":
-      return "What are you in the mood for?";
-    case "budget":
-      return "What budget are we aiming for?";
-    case "date":
-      return "Which day?";
-    case "time":
-      return "What time?";
-    case "partySize":
-      return "How many people?";
-    default:
-      return "";
+function getNotesPrompt(partySize: number | null): string {
+  if (partySize && partySize >= GROUP_PARTY_SIZE) {
+    return `Since you're a group, any dietary needs? Tell me per guest, e.g. "guest 1 vegan, 2 vegetarian, guest 5 nut allergy", plus any other note. Reply 'No' if none.`;
   }
+  return "Any note for the restaurant, like a birthday or a window seat? Reply 'No' to book without one.";
 }
 
 /**
- * Process user message with new flow
+ * "on 2026-10-23", or "every Friday from 2026-10-23 (4 dates)" for a recurring request
  */
-export async function processMessageNew(userText: string): Promise<{
-  response: string;
-  messages: Message[];
-  recommendations?: { top: Restaurant; alternatives: Restaurant[] };
-}> {
-  const messages = getHistory();
-  const activeRequest = getActiveRequest();
-  const mode = getMode();
-  const pendingSlot = getPendingSlot();
-  const selectedRestaurantId = getSelectedRestaurantId();
-
-  let newRequest = { ...activeRequest };
-  let newMode: RequestMode = mode;
-  let newPendingSlot: PendingSlot = pendingSlot;
-  let response = "";
-  let recommendations: { top: Restaurant; alternatives: Restaurant[] } | undefined;
-
-  // Handle reset
-  const lower = userText.toLowerCase().trim();
-  if (lower === "reset") {
-    newRequest = {
-      area: null,
-      cuisine: null,
-      budget: null,
-      partySize: null,
-      date: null,
-      time: null,
-      notes: null,
-    };
-    newMode = "collecting";
-    newPendingSlot = "area";
-    saveActiveRequest(newRequest);
-    saveMode(newMode);
-    savePendingSlot(newPendingSlot);
-    saveSelectedRestaurantId(null);
-    
-    const userMsg: Message = {
-      id: `msg-${Date.now()}-user`,
-      role: "user",
-      text: userText,
-      ts: Date.now(),
-    };
-    const assistantMsg: Message = {
-      id: `msg-${Date.now()}-assistant`,
-      role: "assistant",
-      text: "Starting fresh. Which area do you want to eat in?",
-      ts: Date.now(),
-    };
-    const updatedMessages = [...messages, userMsg, assistantMsg];
-    saveHistory(updatedMessages);
-    return { response: assistantMsg.text, messages: updatedMessages };
-  }
-
-  // Handle "Continue chat" in recommending mode
-  if (mode === "recommending" && (lower === "continue chat" || lower === "continue")) {
-    newMode = "collecting";
-    saveMode(newMode);
-    
-    const userMsg: Message = {
-      id: `msg-${Date.now()}-user`,
-      role: "user",
-      text: userText,
-      ts: Date.now(),
-    };
-    const assistantMsg: Message = {
-      id: `msg-${Date.now()}-assistant`,
-      role: "assistant",
-      text: "What would you like to change?",
-      ts: Date.now(),
+function getDateText(request: ActiveRequest): string {
+  const date = request.date || "your date";
+  if (!request.recurrence) return `on ${date}`;
+  return `${describeRecurrence(request.recurrence)} from ${date} (${request.recurrence.count} dates)`;
+}
+
+/**
+ * One line per occurrence of a new series: its code, waitlist place or why it was skipped
+ */
+function getSeriesDoneText(
+  restaurant: Restaurant,
+  recurrence: RecurrenceRule,
+  bookings: Booking[],
+  skipped: BookingResult[]
+): string {
+  const lines = [
+    ...bookings.map((b) => ({
+      date: b.date,
+      text: b.status === "waitlisted" ? "on the waitlist" : `${b.confirmationId}`,
+    })),
+    ...skipped.map((r) => ({
+      date: r.date,
+      text: r.reason === "closed" ? "not booked (closed at that time)" : "not booked (fully booked)",
+    })),
+  ]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((line) => `- ${line.date}: ${line.text}`);
+
+  return (
+    `Done. Booked ${restaurant.name} ${describeRecurrence(recurrence)} at ${bookings[0].time}:\n${lines.join("\n")}\n` +
+    `To cancel one date or the whole series, just ask me to cancel a booking. (POC)`
+  );
+}
+
+
+function formatPrice(price: Restaurant["price"]): string {
+  return price === "low" ? "$" : price === "mid" ? "$$" : "$$$";
+}
+
+/**
+ * Top pick plus up to two alternatives, each with the reasons it matches
+ */
+function formatRecommendations(
+  recs: { top: Restaurant; alternatives: Restaurant[] },
+  request: ActiveRequest,
+  turn: Pick<DialogueTurn, "flow">
+): string {
+  const formatOne = (num: number, restaurant: Restaurant) =>
+    `${num}) ${restaurant.name} (${restaurant.area}) price: ${formatPrice(restaurant.price)} | ${restaurant.cuisines.join(", ")}\n   Why: ${generateReasons(restaurant, request).join("; ")}\n`;
+
+  let recText = `Top pick:\n${formatOne(1, recs.top)}`;
+  if (recs.alternatives[0]) {
+    recText += `\nAlternatives:\n${formatOne(2, recs.alternatives[0])}`;
+  }
+  if (recs.alternatives[1]) {
+    recText += formatOne(3, recs.alternatives[1]);
+  }
+  if (request.avoid && request.avoid.length > 0) {
+    recText += `\nLeaving out: ${request.avoid.join(", ")}\n`;
+  }
+  if (hasStage(turn, "diversify")) {
+    recText += `\nReply 'more' for other options.`;
+  }
+  return recText;
+}
+
+/**
+ * Short description of a request, e.g. "Italian in Downtown on 2026-10-23 at 20:00 for 4"
+ */
+function summarizeRequest(request: ActiveRequest): string {
+  const budget = isWildcard(request.budget) ? "any budget" : request.budget ? `${request.budget.label} budget` : null;
+  const parts = [isWildcard(request.cuisine) ? "any cuisine" : request.cuisine || budget || "a table"];
+  if (request.area) parts.push(isWildcard(request.area) ? "anywhere" : `in ${request.area}`);
+  if (request.date) parts.push(getDateText(request));
+  if (request.time) parts.push(`at ${request.time}`);
+  if (request.partySize) parts.push(`for ${request.partySize}`);
+  // A queued request keeps what the slots can't say, such as the meal
+  if (request.description) parts.push(`("${request.description}")`);
+  return parts.join(" ");
+}
+
+/**
+ * Show the top restaurants for the turn's request; returns the reply text
+ */
+function recommend(turn: DialogueTurn): string {
+  const recs = getTopRestaurants(turn.request);
+  turn.effects.push({ type: "recommended", ...recs });
+  turn.mode = "recommending";
+  turn.pendingSlot = null;
+  turn.selectedRestaurantId = null;
+  return formatRecommendations(recs, turn.request, turn);
+}
+
+/**
+ * A request is done (booked or walk-in): move on to the next queued one, or sum up once all are done
+ * Adds to turn.reply
+ */
+function startNextRequest(turn: DialogueTurn, outcome: string): void {
+  if (!turn.queue) return;
+
+  const outcomes = [...turn.queue.outcomes, outcome];
+  const [next, ...pending] = turn.queue.pending;
+  if (!next) {
+    turn.queue = null;
+    turn.reply += `\n\nThat's everything:\n${outcomes.map((line) => `- ${line}`).join("\n")}`;
+    return;
+  }
+
+  turn.queue = { pending, outcomes };
+  turn.request = next;
+  const slot = getNextMissingSlot(next);
+  if (slot === null) {
+    turn.reply += `\n\nNext up: ${summarizeRequest(next)}.\n${recommend(turn)}`;
+    return;
+  }
+  turn.mode = "collecting";
+  turn.pendingSlot = slot;
+  turn.selectedRestaurantId = null;
+  turn.reply += `\n\nNext up: ${summarizeRequest(next)}. ${getSlotQuestion(slot)}`;
+}
+
+/**
+ * Move on from a picked restaurant: ask for notes, or book right away if the flow has no notes stage
+ */
+async function confirmSelection(turn: DialogueTurn, restaurant: Restaurant, confirmText: string): Promise<void> {
+  if (hasStage(turn, "notes")) {
+    turn.mode = "confirming";
+    turn.reply = `${confirmText} ${getNotesPrompt(turn.request.partySize)}`;
+    return;
+  }
+  turn.request.notes = null;
+  await bookSelection(turn, restaurant);
+}
+
+/**
+ * Book the selected restaurant for the request (one booking, or one per date for a recurring request)
+ * On success the request starts over; if the slot filled up meanwhile, go back to recommending
+ */
+async function bookSelection(turn: DialogueTurn, restaurant: Restaurant | undefined): Promise<void> {
+  const { account, request } = turn;
+  const isGroup = !!request.partySize && request.partySize >= GROUP_PARTY_SIZE;
+  let doneText = "Done. Saved. (POC)";
+  let outcome = `${restaurant?.name || summarizeRequest(request)}: saved`;
+
+  if (restaurant && account && request.date && request.time && request.partySize) {
+    // The booking API takes HH:mm; read "8pm" or a bare "9" against this restaurant's hours
+    const minutes = parseTimeToMinutes(request.time, restaurant);
+    const bookingInput = {
+      account,
+      restaurantId: restaurant.id,
+      date: request.date,
+      time: minutes !== null ? formatMinutes(minutes) : request.time,
+      partySize: request.partySize,
+      notes: request.notes || undefined,
+      request,
     };
-    const updatedMessages = [...messages, userMsg, assistantMsg];
-    saveHistory(updatedMessages);
-    return { response: assistantMsg.text, messages: updatedMessages };
-  }
-
-  // Handle picking a restaurant (1, 2, 3, "Pick #1", etc.)
-  if (mode === "recommending") {
-    const pickMatch = lower.match(/^(pick\s*#?\s*)?([123])$/);
-    if (pickMatch) {
-      const num = parseInt(pickMatch[2]) as 1 | 2 | 3;
-      const recs = getTopRestaurants(activeRequest);
-      const restaurants = [recs.top, ...recs.alternatives];
-      const selected = restaurants[num - 1];
-      
-      if (selected) {
-        const userMsg: Message = {
-          id: `msg-${Date.now()}-user`,
-          role: "user",
-          text: userText,
-          ts: Date.now(),
-        };
-        let assistantText: string;
-
-        if (!selected.bookingAvailable) {
-          // Walk-in only: no booking, just tell them they can go and show discount code
-          saveSelectedRestaurantId(null);
-          newMode = "collecting";
-          saveMode(newMode);
-          assistantText =
-            `You can just head over—no booking needed.` +
-            (selected.discountCode
-              ? ` Present this code at the door for a discount: **${selected.discountCode}**`
-              : "");
-        } else {
-          saveSelectedRestaurantId(selected.id);
-          newMode = "confirming";
-          saveMode(newMode);
-          const dateStr = activeRequest.date || "your date";
-          const timeStr = activeRequest.time || "your time";
-          const partyStr = activeRequest.partySize || "your party";
-          assistantText = `Cool. Confirming ${selected.name} for ${partyStr} on ${dateStr} at ${timeStr}. Reply 'Skip' to skip, or type your note.`;
-        }
+    let booked = false;
+    let result: BookingResult | undefined;
 
-        const assistantMsg: Message = {
-          id: `msg-${Date.now()}-assistant`,
-          role: "assistant",
-          text: assistantText,
-          ts: Date.now(),
-        };
-        const updatedMessages = [...messages, userMsg, assistantMsg];
-        saveHistory(updatedMessages);
-        return { response: assistantMsg.text, messages: updatedMessages };
+    if (request.recurrence) {
+      // Recurring: one booking per date; dates that are full get waitlisted or skipped
+      const series = await turn.deps.createBookingSeries({ ...bookingInput, recurrence: request.recurrence });
+      if (series.ok) {
+        booked = true;
+        turn.effects.push({ type: "booked", bookings: series.bookings });
+        doneText = getSeriesDoneText(restaurant, request.recurrence, series.bookings, series.skipped);
+        outcome = `${restaurant.name} ${describeRecurrence(request.recurrence)} at ${request.time}: ${series.bookings.length} dates booked`;
+      } else {
+        result = series.skipped[0];
+      }
+    } else {
+      const write = await turn.deps.createBooking(bookingInput);
+      result = write.result;
+      if (write.ok && result) {
+        booked = true;
+        turn.effects.push({ type: "booked", bookings: [write.booking] });
+        doneText =
+          result.status === "confirmed"
+            ? `Done. Saved. Confirmation: ${result.confirmationId} (POC)\nAdd to calendar: ${getBookingIcsPath(write.booking.id)}`
+            : `You're on the waitlist at ${restaurant.name} for ${result.time}. I'll message you here if a table frees up. (POC)`;
+        outcome = `${restaurant.name} on ${request.date} at ${result.time} for ${request.partySize}: ${
+          result.status === "confirmed" ? result.confirmationId : "on the waitlist"
+        }`;
       }
     }
-  }
 
-  // Handle confirming mode - notes
-  if (mode === "confirming") {
-    // Validate input: only accept "skip" to skip, or non-empty text as a note
-    // Reject commands and empty strings
-    const trimmed = userText.trim();
-    const isSkip = lower === "skip" || lower === "no" || lower === "n";
-    const isCommand = /^(pick\s*#?\s*[123]|continue\s+chat|reset)$/i.test(trimmed);
-    const isEmpty = trimmed.length === 0;
-    
-    if (isCommand) {
-      // Reject commands - stay in confirming mode and show error
-      const userMsg: Message = {
-        id: `msg-${Date.now()}-user`,
-        role: "user",
-        text: userText,
-        ts: Date.now(),
-      };
-      const assistantMsg: Message = {
-        id: `msg-${Date.now()}-assistant`,
-        role: "assistant",
-        text: "Please reply 'Skip' to skip notes, or type your note.",
-        ts: Date.now(),
-      };
-      const updatedMessages = [...messages, userMsg, assistantMsg];
-      saveHistory(updatedMessages);
-      return { response: assistantMsg.text, messages: updatedMessages };
-    }
-    
-    if (isEmpty && !isSkip) {
-      // Reject empty strings - stay in confirming mode and show error
-      const userMsg: Message = {
-        id: `msg-${Date.now()}-user`,
-        role: "user",
-        text: userText,
-        ts: Date.now(),
-      };
-      const assistantMsg: Message = {
-        id: `msg-${Date.now()}-assistant`,
-        role: "assistant",
-        text: "Please reply 'Skip' to skip notes, or type your note.",
-        ts: Date.now(),
-      };
-      const updatedMessages = [...messages, userMsg, assistantMsg];
-      saveHistory(updatedMessages);
-      return { response: assistantMsg.text, messages: updatedMessages };
+    if (!booked) {
+      // Slot filled up since it was picked: go back to recommending with the restaurant selected
+      turn.mode = "recommending";
+      turn.reply = getUnavailableText(
+        restaurant,
+        !result || result.reason === "unknown_restaurant" || result.reason === "walk_in_only" || !result.reason
+          ? "full"
+          : result.reason,
+        request.date,
+        request.time,
+        result?.alternatives || []
+      );
+      return;
     }
-    
-    if (isSkip) {
-      newRequest.notes = null;
-    } else {
-      newRequest.notes = trimmed;
-    }
-    
-    const selectedId = getSelectedRestaurantId();
-    if (selectedId) {
-      const restaurant = RESTAURANTS.find((r) => r.id === selectedId);
-      if (restaurant && activeRequest.date && activeRequest.time && activeRequest.partySize) {
-        const booking = {
-          id: `booking-${Date.now()}`,
-          restaurantId: selectedId,
-          date: activeRequest.date,
-          time: activeRequest.time,
-          partySize: activeRequest.partySize,
-          notes: newRequest.notes || undefined,
-          ts: Date.now(),
-        };
-        addBooking(booking);
-      }
+
+    if (isGroup && request.notes) {
+      doneText += `\n\nPassed on to the restaurant:\n${request.notes}`;
     }
-    
-    // Reset for next request
-    newRequest = {
-      area: null,
-      cuisine: null,
-      budget: null,
-      partySize: null,
-      date: null,
-      time: null,
-      notes: null,
-    };
-    newMode = "collecting";
-    newPendingSlot = "area";
-    saveActiveRequest(newRequest);
-    saveMode(newMode);
-    savePendingSlot(newPendingSlot);
-    saveSelectedRestaurantId(null);
-    
-    const userMsg: Message = {
-      id: `msg-${Date.now()}-user`,
-      role: "user",
-      text: userText,
-      ts: Date.now(),
-    };
-    const assistantMsg: Message = {
-      id: `msg-${Date.now()}-assistant`,
-      role: "assistant",
-      text: "Done. Saved. (POC)",
-      ts: Date.now(),
-    };
-    const updatedMessages = [...messages, userMsg, assistantMsg];
-    saveHistory(updatedMessages);
-    return { response: assistantMsg.text, messages: updatedMessages };
   }
 
-  // Main flow: classify and extract
+  // Reset for next request
+  turn.request = createEmptyRequest();
+  turn.mode = "collecting";
+  turn.pendingSlot = "area";
+  turn.selectedRestaurantId = null;
+  turn.reply = doneText;
+  startNextRequest(turn, outcome);
+}
+
+/**
+ * manage: replies while cancelling or modifying an existing booking
+ */
+async function manageStage(turn: DialogueTurn): Promise<void> {
+  if (turn.mode !== "managing" || !turn.management || !turn.account) return;
+
   try {
-    const classification = await classifyAndExtractClient(userText);
-
-    // Handle greeting/off-topic
-    if (classification.intent === "greeting_or_offtopic") {
-      const userMsg: Message = {
-        id: `msg-${Date.now()}-user`,
-        role: "user",
-        text: userText,
-        ts: Date.now(),
-      };
-      const assistantMsg: Message = {
-        id: `msg-${Date.now()}-assistant`,
-        role: "assistant",
-        text: "Hey! I'm your restaurant butler. Tell me what you're craving and I'll suggest the best spots from my list.",
-        ts: Date.now(),
-      };
-      const updatedMessages = [...messages, userMsg, assistantMsg];
-      saveHistory(updatedMessages);
-      return { response: assistantMsg.text, messages: updatedMessages };
+    const step = await continueManagement(turn.account, turn.management, turn.userText, turn.deps);
+    turn.management = step.state;
+    if (!step.state) {
+      // Flow finished: go back to whatever request was being collected
+      turn.mode = "collecting";
     }
+    turn.reply = step.text;
+  } catch (error) {
+    console.error("Booking management error:", error);
+    turn.reply = "Sorry, I couldn't reach your bookings. Please try again.";
+  }
+}
 
-    // Extract values
-    const extracted = classification.extracted;
-    const supportedAreas = getAvailableAreas();
-    const supportedCuisines = getAvailableCuisines();
-
-    // If pendingSlot exists, validate with Prompt B first
-    let validatedValue: string | number | null = null;
-    if (pendingSlot) {
-      const supportedChoices =
-        pendingSlot === "area" ? supportedAreas : pendingSlot === "cuisine" ? supportedCuisines : undefined;
-      const validation = await validateSlotClient(pendingSlot, userText, supportedChoices);
-      
-      if (validation.confidence > 0.3 && validation.normalized !== null) {
-        validatedValue = validation.normalized;
+/**
+ * select: replies to the recommendations - continue chat, a pick, joining the waitlist or another time
+ */
+async function selectStage(turn: DialogueTurn): Promise<void> {
+  if (turn.mode !== "recommending") return;
+  const { lower, request } = turn;
+
+  // "Continue chat" goes back to collecting with the request as it is
+  if (lower === "continue chat" || lower === "continue") {
+    turn.mode = "collecting";
+    turn.selectedRestaurantId = null;
+    turn.reply = "What would you like to change?";
+    return;
+  }
+
+  // Picking a restaurant (1, 2, 3, "Pick #1", etc.)
+  const pickMatch = lower.match(/^(pick\s*#?\s*)?([123])$/);
+  if (pickMatch) {
+    const num = parseInt(pickMatch[2]) as 1 | 2 | 3;
+    const recs = getTopRestaurants(request);
+    const selected = [recs.top, ...recs.alternatives][num - 1];
+    if (!selected) return;
+
+    if (!selected.bookingAvailable) {
+      // Walk-in only: no booking, record the visit and show the discount code
+      turn.selectedRestaurantId = null;
+      turn.mode = "collecting";
+      turn.reply = `You can just head over—no booking needed.`;
+      if (turn.account) {
+        try {
+          const { intent, withheld } = await turn.deps.createWalkIn({
+            account: turn.account,
+            restaurantId: selected.id,
+            date: request.date || getVenueToday(),
+          });
+          turn.effects.push({ type: "walk_in", intent });
+          if (intent.discountCode) {
+            turn.reply += ` Present this code at the door for a discount: **${intent.discountCode}** (ref ${intent.id}, valid through ${new Date(intent.expiresTs).toLocaleDateString()})`;
+          } else if (withheld === "already_redeemed") {
+            turn.reply += ` You've already used the ${selected.name} discount code, so there's no code this time.`;
+          }
+        } catch (error) {
+          // Without a recorded intent the code can't be redeemed, so don't show it
+          console.error("Walk-in error:", error);
+        }
       }
+      startNextRequest(turn, `${selected.name}: walk-in, no booking needed`);
+      return;
+    }
+
+    turn.selectedRestaurantId = selected.id;
+    const availability =
+      request.date && request.time && request.partySize
+        ? await turn.deps.checkAvailability(selected.id, request.date, request.time, request.partySize)
+        : null;
+
+    // Unparseable times can't be checked here; the booking API re-checks at confirmation
+    if (availability && availability.status !== "available" && availability.status !== "invalid_time") {
+      // Stay in recommending mode with the restaurant selected so a time reply can be matched below
+      turn.reply = getUnavailableText(
+        selected,
+        availability.status,
+        request.date!,
+        request.time!,
+        availability.nearbySlots,
+        availability.waitlistOpen
+      );
+      return;
     }
 
-    // Normalize area and cuisine to DB from extracted values
-    const dbNormalization = await normalizeToDBClient(
-      extracted.area.value,
-      extracted.cuisine.value,
-      supportedAreas,
-      supportedCuisines
+    const timeStr = request.time || "your time";
+    const partyStr = request.partySize || "your party";
+    await confirmSelection(turn, selected, `Cool. Confirming ${selected.name} for ${partyStr} ${getDateText(request)} at ${timeStr}.`);
+    return;
+  }
+
+  const selected = RESTAURANTS.find((r) => r.id === turn.selectedRestaurantId);
+  if (!selected) return;
+
+  // Joining the waitlist after the restaurant was full at the requested time
+  if ((lower === "waitlist" || lower === "join waitlist") && request.date && request.time && request.partySize) {
+    // The booking API waitlists full slots on its own, so this is the normal confirm step
+    await confirmSelection(
+      turn,
+      selected,
+      `Cool. Putting ${request.partySize} on the waitlist at ${selected.name} for ${request.date} at ${request.time}.`
     );
+    return;
+  }
 
-    // Check for unavailable area
-    if (dbNormalization.unavailable.area && extracted.area.value) {
-      const examples = supportedAreas.slice(0, 3).join(", ");
-      const userMsg: Message = {
-        id: `msg-${Date.now()}-user`,
-        role: "user",
-        text: userText,
-        ts: Date.now(),
-      };
-      const assistantMsg: Message = {
-        id: `msg-${Date.now()}-assistant`,
-        role: "assistant",
-        text: `I don't have ${extracted.area.value} in my list yet. Want one of these instead: ${examples}?`,
-        ts: Date.now(),
-      };
-      newPendingSlot = "area";
-      savePendingSlot(newPendingSlot);
-      const updatedMessages = [...messages, userMsg, assistantMsg];
-      saveHistory(updatedMessages);
-      return { response: assistantMsg.text, messages: updatedMessages };
+  // Another time after the restaurant was full at the requested time
+  const minutes = parseTimeToMinutes(turn.userText, selected);
+  if (minutes !== null && request.date && request.partySize) {
+    const time = formatMinutes(minutes);
+    const availability = await turn.deps.checkAvailability(selected.id, request.date, time, request.partySize);
+
+    if (availability.status === "available") {
+      request.time = time;
+      await confirmSelection(
+        turn,
+        selected,
+        `Cool. Confirming ${selected.name} for ${request.partySize} ${getDateText(request)} at ${time}.`
+      );
+    } else {
+      turn.reply = getUnavailableText(
+        selected,
+        availability.status,
+        request.date,
+        time,
+        availability.nearbySlots,
+        availability.waitlistOpen
+      );
     }
+  }
+}
 
-    // Check for unavailable cuisine
-    if (dbNormalization.unavailable.cuisine && extracted.cuisine.value) {
-      const examples = supportedCuisines.slice(0, 3).join(", ");
-      const userMsg: Message = {
-        id: `msg-${Date.now()}-user`,
-        role: "user",
-        text: userText,
-        ts: Date.now(),
-      };
-      const assistantMsg: Message = {
-        id: `msg-${Date.now()}-assistant`,
-        role: "assistant",
-        text: `I don't have ${extracted.cuisine.value} spots in my list yet. I do have: ${examples}.`,
-        ts: Date.now(),
+/**
+ * clarify: the answer to "did you mean X or Y?" - the pick fills the slot and is remembered as an alias
+ * Anything else drops the question and the message is handled as usual
+ */
+async function clarifyStage(turn: DialogueTurn): Promise<void> {
+  const clarification = turn.clarification;
+  if (!clarification) return;
+  turn.clarification = null;
+
+  if (isClarificationRejection(turn.lower)) {
+    turn.pendingSlot = clarification.slot;
+    turn.reply = getSlotQuestion(clarification.slot, 1);
+    return;
+  }
+
+  const choice = matchClarificationOption(turn.lower, clarification.options);
+  if (!choice) return;
+
+  turn.request[clarification.slot] = choice;
+  try {
+    await turn.deps.saveAlias(clarification.slot, clarification.input, choice);
+  } catch (error) {
+    console.error("Save alias error:", error);
+  }
+
+  turn.echo = `Got it, ${choice}.`;
+  const slot = getNextMissingSlot(turn.request);
+  if (slot === null) {
+    turn.reply = recommend(turn);
+    return;
+  }
+  turn.mode = "collecting";
+  turn.pendingSlot = slot;
+  turn.reply = getSlotQuestion(slot);
+}
+
+// Replies to the notes question that mean "no note, just book it"
+const NO_NOTE_PATTERN =
+  /^(?:skip|no|n|nope|nah|none|nothing|no thanks?|no,? thank you|no notes?|yes|y|yeah|yep|ok|okay|sure|fine|go ahead|book it|confirm|that'?s (?:all|it))[.!]*$/;
+
+/**
+ * Whether the message would change a slot of the request; classifies it, so the classify stage reuses the answer
+ */
+async function changesRequest(turn: DialogueTurn): Promise<boolean> {
+  const { extracted } = await classifyMessage(turn);
+  const normalization: Normalization = turn.understanding
+    ? withoutWildcardMatches(turn.understanding.normalization, extracted)
+    : {
+        // Without the combined call there are no DB matches yet; a named area or cuisine counts as is
+        areaMatch: { input: extracted.area.value, matched: extracted.area.value, confidence: 1 },
+        cuisineMatch: { input: extracted.cuisine.value, matched: extracted.cuisine.value, confidence: 1 },
+        unavailable: { area: false, cuisine: false },
       };
-      newPendingSlot = "cuisine";
-      savePendingSlot(newPendingSlot);
-      const updatedMessages = [...messages, userMsg, assistantMsg];
-      saveHistory(updatedMessages);
-      return { response: assistantMsg.text, messages: updatedMessages };
-    }
+  const changed = structuredClone(turn.request);
+  mergeExtracted(changed, extracted, normalization, true);
+  return describeRequestChanges(turn.request, changed).length > 0;
+}
+
+/**
+ * notes: the reply to the notes prompt, then the booking
+ */
+async function notesStage(turn: DialogueTurn): Promise<void> {
+  if (turn.mode !== "confirming") return;
+
+  // "no", "skip", "ok go ahead" book without a note; other text is the note; commands and empty replies ask again
+  const trimmed = turn.userText.trim();
+  const isSkip = NO_NOTE_PATTERN.test(turn.lower);
+  const isCommand = /^(pick\s*#?\s*[123]|continue\s+chat|reset)$/i.test(trimmed);
+  if (isCommand || (trimmed.length === 0 && !isSkip)) {
+    turn.reply = "Please reply 'No' to book without a note, or type your note.";
+    return;
+  }
+
+  // "actually make it 4 people": leave the notes question and apply the correction instead,
+  // but "I'd rather sit by the window" changes nothing and is the note
+  if (!isSkip && isCorrection(turn.lower) && (await changesRequest(turn))) {
+    turn.mode = "collecting";
+    turn.selectedRestaurantId = null;
+    return;
+  }
+
+  const partySize = turn.request.partySize;
+  if (isSkip) {
+    turn.request.notes = null;
+  } else if (partySize && partySize >= GROUP_PARTY_SIZE) {
+    turn.request.notes = formatGroupNotes(parseGroupRequirements(trimmed, partySize));
+  } else {
+    turn.request.notes = trimmed;
+  }
+
+  await bookSelection(
+    turn,
+    RESTAURANTS.find((r) => r.id === turn.selectedRestaurantId)
+  );
+}
+
+/**
+ * diversify: "more" shows restaurants that weren't offered yet
+ */
+async function diversifyStage(turn: DialogueTurn): Promise<void> {
+  if (turn.mode !== "recommending" || !["more", "more options", "show more", "other options"].includes(turn.lower)) {
+    return;
+  }
+
+  const shown = getTopRestaurants(turn.request);
+  const seen = Array.from(
+    new Set([...(turn.request.seenRestaurantIds || []), shown.top.id, ...shown.alternatives.map((r) => r.id)])
+  );
+  const request = { ...turn.request, seenRestaurantIds: seen };
+  const recs = getTopRestaurants(request);
+
+  if ([recs.top, ...recs.alternatives].every((r) => seen.includes(r.id))) {
+    turn.reply = hasStage(turn, "refine")
+      ? "That's everything that matches so far. What would you like to change: the area, budget or cuisine?"
+      : "That's everything that matches so far. Reply 'Continue chat' to change your request.";
+    return;
+  }
+
+  turn.request = request;
+  turn.selectedRestaurantId = null;
+  turn.effects.push({ type: "recommended", ...recs });
+  turn.reply = formatRecommendations(recs, request, turn);
+}
+
+const REFINE_SLOTS: { slot: Exclude<PendingSlot, null>; label: string; pattern: RegExp }[] = [
+  { slot: "area", label: "area", pattern: /\b(area|location|neighbou?rhood|too far|closer)\b/ },
+  { slot: "budget", label: "budget", pattern: /\b(budget|price|too expensive|too pricey|cheaper)\b/ },
+  { slot: "cuisine", label: "cuisine", pattern: /\b(cuisine|food|wrong vibe|something else)\b/ },
+  { slot: "date", label: "date", pattern: /\b(date|day)\b/ },
+  { slot: "time", label: "time", pattern: /\btime\b/ },
+  { slot: "partySize", label: "party size", pattern: /\b(party size|people|guests)\b/ },
+];
+
+/**
+ * refine: "too expensive", "change the area" clears that slot and asks for it again
+ */
+async function refineStage(turn: DialogueTurn): Promise<void> {
+  if (turn.mode !== "recommending") return;
+  if (!/\b(change|different|another|too|cheaper|closer|not|something else)\b/.test(turn.lower)) return;
+
+  const match = REFINE_SLOTS.find((r) => r.pattern.test(turn.lower));
+  if (!match) return;
+
+  if (match.slot === "partySize") turn.request.partySize = null;
+  else turn.request[match.slot] = null;
+  turn.request.seenRestaurantIds = [];
+  turn.mode = "collecting";
+  turn.pendingSlot = match.slot;
+  turn.selectedRestaurantId = null;
+  turn.reply = `Sure, let's change the ${match.label}. ${getSlotQuestion(match.slot)}`;
+}
 
-    // Apply validated value for pending slot (takes precedence)
-    if (pendingSlot && validatedValue !== null) {
-      switch (pendingSlot) {
-        case "area":
-          newRequest.area = validatedValue as string;
-          break;
-        case "cuisine":
-          newRequest.cuisine = validatedValue as string;
-          break;
-        case "budget":
-          const budgetRange = validatedValue as number;
-          if (budgetRange >= 1 && budgetRange <= 4) {
-            const labels = ["", "low", "medium", "high", "luxury"];
-            newRequest.budget = { range: budgetRange as 1 | 2 | 3 | 4, label: labels[budgetRange] };
+/**
+ * Classify the message (with deps.understandTurn, also validate and normalize it) and keep the answers on the turn
+ */
+async function classifyMessage(turn: DialogueTurn): Promise<Classification> {
+  let classification: Classification;
+  if (turn.deps.understandTurn) {
+    turn.understanding = await turn.deps.understandTurn({
+      userMessage: turn.userText,
+      pendingSlot: turn.pendingSlot
+        ? {
+            name: getSlotDefinition(turn.pendingSlot)?.validation ?? turn.pendingSlot,
+            choices: getSupportedChoices(turn.pendingSlot),
           }
-          break;
-        case "partySize":
-          newRequest.partySize = validatedValue as number;
-          break;
-        case "date":
-          newRequest.date = validatedValue as string;
-          break;
-        case "time":
-          newRequest.time = validatedValue as string;
-          break;
-      }
-    }
+        : null,
+      currentRequest: turn.request,
+      supportedAreas: getAvailableAreas(),
+      supportedCuisines: getAvailableCuisines(),
+    });
+    const { intent, extracted, additionalRequests } = turn.understanding;
+    classification = { intent, extracted, additionalRequests };
+  } else {
+    classification = await turn.deps.classifyAndExtract(turn.userText);
+  }
+  turn.classification = classification;
+  return classification;
+}
 
-    // Merge extracted values from Prompt A (only if slot not already set and confidence is high)
-    if (!newRequest.area && dbNormalization.areaMatch.matched && dbNormalization.areaMatch.confidence > 0.5) {
-      newRequest.area = dbNormalization.areaMatch.matched;
-    }
-    if (!newRequest.cuisine && dbNormalization.cuisineMatch.matched && dbNormalization.cuisineMatch.confidence > 0.5) {
-      newRequest.cuisine = dbNormalization.cuisineMatch.matched;
-    }
-    if (!newRequest.budget && extracted.budget.range) {
-      const labels = ["", "low", "medium", "high", "luxury"];
-      newRequest.budget = { range: extracted.budget.range, label: labels[extracted.budget.range] };
+/**
+ * classify: intent and slot values from the message; answers greetings and starts cancel/modify
+ * With deps.understandTurn, the same call also answers validate and normalize
+ */
+async function classifyStage(turn: DialogueTurn): Promise<void> {
+  // The notes stage may have classified the message already
+  const classification = turn.classification ?? (await classifyMessage(turn));
+
+  if (classification.intent === "greeting_or_offtopic") {
+    turn.reply = "Hey! I'm your restaurant butler. Tell me what you're craving and I'll suggest the best spots from my list.";
+    return;
+  }
+
+  if ((classification.intent === "cancel_booking" || classification.intent === "modify_booking") && turn.account) {
+    const step = await startManagement(
+      turn.account,
+      classification.intent === "cancel_booking" ? "cancel" : "modify",
+      classification.intent === "modify_booking" ? changesFromExtraction(classification.extracted) : {},
+      turn.deps
+    );
+    turn.management = step.state;
+    if (step.state) {
+      turn.mode = "managing";
+      turn.selectedRestaurantId = null;
     }
-    if (!newRequest.partySize && extracted.partySize) {
-      newRequest.partySize = extracted.partySize;
+    turn.reply = step.text;
+  }
+}
+
+/**
+ * validate: check the reply against the slot that was asked for
+ */
+async function validateStage(turn: DialogueTurn): Promise<void> {
+  turn.validatedValue = null;
+  if (!turn.pendingSlot) return;
+
+  const kind = getSlotDefinition(turn.pendingSlot)?.validation ?? turn.pendingSlot;
+
+  // "any", "doesn't matter": no need to ask the model
+  if (
+    (kind === "area" || kind === "cuisine" || kind === "budget") &&
+    (isWildcardAnswer(turn.userText) || findWildcardSlots(turn.userText).includes(kind))
+  ) {
+    turn.validatedValue = ANY;
+    return;
+  }
+
+  const validation =
+    turn.understanding?.validation ??
+    (await turn.deps.validateSlot(kind, turn.userText, getSupportedChoices(turn.pendingSlot)));
+
+  if (validation.normalized === null || validation.confidence <= CLARIFY_BAND.min) return;
+
+  // "wasl": close to an area, but not close enough to just use it
+  if ((kind === "area" || kind === "cuisine") && isUnsure(validation.confidence)) {
+    turn.clarification = {
+      slot: kind,
+      input: turn.userText.trim(),
+      options: rankChoices(turn.userText, getSupportedChoices(turn.pendingSlot) || [], String(validation.normalized)),
+    };
+    return;
+  }
+  turn.validatedValue = validation.normalized;
+}
+
+/**
+ * The combined call matches whatever was extracted, "any" included; drop those matches like normalizeToDB's caller would
+ */
+function withoutWildcardMatches(normalization: Normalization, extracted: Classification["extracted"]): Normalization {
+  const empty = { input: null, matched: null, confidence: 0 };
+  return {
+    areaMatch: isWildcard(extracted.area.value) ? empty : normalization.areaMatch,
+    cuisineMatch: isWildcard(extracted.cuisine.value) ? empty : normalization.cuisineMatch,
+    unavailable: {
+      area: !isWildcard(extracted.area.value) && normalization.unavailable.area,
+      cuisine: !isWildcard(extracted.cuisine.value) && normalization.unavailable.cuisine,
+    },
+  };
+}
+
+/**
+ * normalize: map extracted area and cuisine onto the restaurant list; answers when we don't cover them
+ */
+async function normalizeStage(turn: DialogueTurn): Promise<void> {
+  const extracted = turn.classification!.extracted;
+  const supportedAreas = getAvailableAreas();
+  const supportedCuisines = getAvailableCuisines();
+
+  // "any" isn't a place or a cuisine to look up
+  const normalization = turn.understanding
+    ? withoutWildcardMatches(turn.understanding.normalization, extracted)
+    : await turn.deps.normalizeToDB(
+        isWildcard(extracted.area.value) ? null : extracted.area.value,
+        isWildcard(extracted.cuisine.value) ? null : extracted.cuisine.value,
+        supportedAreas,
+        supportedCuisines
+      );
+  turn.normalization = normalization;
+
+  if (normalization.unavailable.area && extracted.area.value) {
+    const examples = supportedAreas.slice(0, 3).join(", ");
+    turn.pendingSlot = "area";
+    turn.reply = `I don't have ${extracted.area.value} in my list yet. Want one of these instead: ${examples}?`;
+    return;
+  }
+
+  if (normalization.unavailable.cuisine && extracted.cuisine.value) {
+    const examples = supportedCuisines.slice(0, 3).join(", ");
+    turn.pendingSlot = "cuisine";
+    turn.reply = `I don't have ${extracted.cuisine.value} spots in my list yet. I do have: ${examples}.`;
+    return;
+  }
+
+  // An unsure match for an empty slot: ask which one they meant (area first, one question at a time)
+  const unsure = (
+    [
+      { slot: "area", match: normalization.areaMatch, choices: supportedAreas },
+      { slot: "cuisine", match: normalization.cuisineMatch, choices: supportedCuisines },
+    ] as const
+  ).find(({ slot, match }) => match.matched && match.input && isUnsure(match.confidence) && !turn.request[slot]);
+  if (unsure && !turn.clarification) {
+    turn.clarification = {
+      slot: unsure.slot,
+      input: unsure.match.input!,
+      options: rankChoices(unsure.match.input!, unsure.choices, unsure.match.matched),
+    };
+  }
+
+  // "... and also brunch on Sunday": queue the other requests to handle after this one
+  const additional = turn.classification!.additionalRequests;
+  if (additional.length === 0) return;
+
+  const queued: ActiveRequest[] = [];
+  for (let i = 0; i < additional.length; i++) {
+    const other = additional[i];
+    const otherNormalization =
+      turn.understanding?.additionalNormalizations[i] ??
+      (await turn.deps.normalizeToDB(other.area.value, other.cuisine.value, supportedAreas, supportedCuisines));
+    const request = createEmptyRequest();
+    mergeExtracted(request, other, otherNormalization, false);
+    if (other.text) request.description = other.text;
+    queued.push(request);
+  }
+  turn.queue = {
+    pending: [...queued, ...(turn.queue?.pending || [])],
+    outcomes: turn.queue?.outcomes || [],
+  };
+  turn.echo = `That's ${queued.length + 1} requests, so let's take them one at a time. After this one: ${queued
+    .map(summarizeRequest)
+    .join("; ")}.`;
+}
+
+/**
+ * avoid: "no sushi", "anything but Italian", "not too loud" add to the request's avoid list
+ */
+async function avoidStage(turn: DialogueTurn): Promise<void> {
+  const candidates = Array.from(
+    new Set([...getAvailableCuisines(), ...RESTAURANTS.flatMap((r) => r.vibe)].map((c) => c.toLowerCase()))
+  );
+  const avoided = candidates.filter((c) =>
+    new RegExp(
+      `\\b(?:no|not|avoid|without|anything but|except|skip|don't want|dont want|hate)\\s+(?:\\w+\\s+)?${c.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`
+    ).test(turn.lower)
+  );
+  if (avoided.length === 0) return;
+
+  turn.request.avoid = Array.from(new Set([...(turn.request.avoid || []), ...avoided]));
+
+  // "anything but Italian" must not become the cuisine
+  const isAvoided = (value: unknown) => typeof value === "string" && avoided.includes(value.toLowerCase());
+  if (turn.normalization && isAvoided(turn.normalization.cuisineMatch.matched)) {
+    turn.normalization.cuisineMatch.matched = null;
+  }
+  if (turn.pendingSlot === "cuisine" && isAvoided(turn.validatedValue)) {
+    turn.validatedValue = null;
+  }
+}
+
+const BUDGET_LABELS = ["", "low", "medium", "high", "luxury"];
+
+/**
+ * Copy extracted values into a request: empty slots only, unless overwrite (corrections)
+ * Area and cuisine come from the DB matches; low-confidence values are left out (unsure ones are asked about)
+ */
+function mergeExtracted(
+  request: ActiveRequest,
+  extracted: Classification["extracted"],
+  normalization: Normalization,
+  overwrite: boolean
+): void {
+  if (
+    (overwrite || !request.area) &&
+    normalization.areaMatch.matched &&
+    normalization.areaMatch.confidence > CLARIFY_BAND.max
+  ) {
+    request.area = normalization.areaMatch.matched;
+  }
+  if (
+    (overwrite || !request.cuisine) &&
+    normalization.cuisineMatch.matched &&
+    normalization.cuisineMatch.confidence > CLARIFY_BAND.max
+  ) {
+    request.cuisine = normalization.cuisineMatch.matched;
+  }
+  if ((overwrite || !request.budget) && extracted.budget.range) {
+    request.budget = { range: extracted.budget.range, label: BUDGET_LABELS[extracted.budget.range] };
+  }
+  if ((overwrite || !request.partySize) && extracted.partySize) {
+    request.partySize = extracted.partySize;
+  }
+  if ((overwrite || !request.date) && extracted.date.value && extracted.date.confidence > 0.5) {
+    request.date = extracted.date.value;
+  }
+  if ((overwrite || !request.time) && extracted.time.value && extracted.time.confidence > 0.5) {
+    request.time = extracted.time.value;
+  }
+}
+
+/**
+ * plan: merge the new values into the request, then decide whether to recommend or ask for a slot
+ */
+async function planStage(turn: DialogueTurn): Promise<void> {
+  const { request, pendingSlot, validatedValue } = turn;
+  const extracted = turn.classification!.extracted;
+  const normalization = turn.normalization!;
+  // "actually make it 4 people": extracted values replace filled slots too
+  const correcting = isCorrection(turn.lower);
+  const before = structuredClone(request);
+
+  // Apply validated value for pending slot (takes precedence)
+  if (pendingSlot && validatedValue !== null && validatedValue !== undefined) {
+    switch (pendingSlot) {
+      case "area":
+        request.area = validatedValue as string;
+        break;
+      case "cuisine":
+        request.cuisine = validatedValue as string;
+        break;
+      case "budget": {
+        const budgetRange = validatedValue as number;
+        if (isWildcard(validatedValue)) {
+          request.budget = ANY;
+        } else if (budgetRange >= 1 && budgetRange <= 4) {
+          request.budget = { range: budgetRange as 1 | 2 | 3 | 4, label: BUDGET_LABELS[budgetRange] };
+        }
+        break;
+      }
+      case "partySize":
+        request.partySize = validatedValue as number;
+        break;
+      case "date":
+        request.date = validatedValue as string;
+        break;
+      case "time":
+        request.time = validatedValue as string;
+        break;
     }
-    if (!newRequest.date && extracted.date.value && extracted.date.confidence > 0.5) {
-      newRequest.date = extracted.date.value;
+  }
+
+  // Merge extracted values from Prompt A (only if slot not already set, or when correcting, and confidence is high)
+  mergeExtracted(request, extracted, normalization, correcting);
+
+  // "any cuisine", "budget doesn't matter": answered, but not a filter
+  for (const slot of findWildcardSlots(turn.userText)) {
+    if (correcting || !request[slot]) request[slot] = ANY;
+  }
+
+  // "every Friday", "first Saturday of every month": the date becomes the first occurrence
+  const recurrence = parseRecurrence(turn.userText);
+  if (recurrence) {
+    request.recurrence = recurrence;
+    request.date = expandRecurrence(recurrence, request.date || "")[0];
+  }
+
+  // A party bigger than any venue seats can't be recommended anything: ask for the size again
+  const largestParty = getLargestPartySize();
+  if (request.partySize && request.partySize > largestParty) {
+    const requestedSize = request.partySize;
+    request.partySize = null;
+    turn.pendingSlot = "partySize";
+    turn.reply = `The biggest table I can book seats ${largestParty}, so ${requestedSize} won't fit in one booking. How many people should I book for? You can split the group and book the rest separately.`;
+    return;
+  }
+
+  // Answered another way this turn (e.g. a confident match in the same message): nothing to ask
+  if (turn.clarification && request[turn.clarification.slot] !== before[turn.clarification.slot]) {
+    turn.clarification = null;
+  }
+
+  const changes = describeRequestChanges(before, request, true);
+  if (changes.length > 0) {
+    turn.echo = [turn.echo, `Got it, changed ${changes.join(", ")}.`].filter(Boolean).join("\n");
+  }
+
+  const nextSlot = getNextMissingSlot(request);
+  turn.plan = nextSlot === null ? { kind: "recommend" } : { kind: "ask", slot: nextSlot };
+}
+
+/**
+ * respond: recommend once every slot is filled, else ask for the next one
+ * An unsure area or cuisine is asked about first
+ */
+async function respondStage(turn: DialogueTurn): Promise<void> {
+  if (!turn.plan) return;
+
+  if (turn.clarification) {
+    turn.mode = "collecting";
+    turn.pendingSlot = turn.clarification.slot;
+    turn.selectedRestaurantId = null;
+    turn.reply = getClarificationQuestion(turn.clarification);
+    return;
+  }
+
+  if (turn.plan.kind === "recommend") {
+    turn.reply = recommend(turn);
+    return;
+  }
+
+  // Asked again (the reply didn't fill it): use the next wording
+  const attempt = turn.pendingSlot === turn.plan.slot ? 1 : 0;
+  turn.pendingSlot = turn.plan.slot;
+  turn.reply = getSlotQuestion(turn.plan.slot, attempt);
+}
+
+const STAGES: Record<DialogueStageName, DialogueStage> = {
+  manage: manageStage,
+  select: selectStage,
+  clarify: clarifyStage,
+  notes: notesStage,
+  diversify: diversifyStage,
+  refine: refineStage,
+  classify: classifyStage,
+  validate: validateStage,
+  normalize: normalizeStage,
+  avoid: avoidStage,
+  plan: planStage,
+  respond: respondStage,
+};
+
+/**
+ * The account's bookings for the welcome line; a failed lookup just leaves the booking out
+ */
+async function listBookingsSafely(deps: DialogueDeps): Promise<Booking[]> {
+  if (!deps.account) return [];
+  try {
+    return await deps.listBookings(deps.account);
+  } catch (error) {
+    console.error("List bookings error:", error);
+    return [];
+  }
+}
+
+function toSnapshot(state: DialogueState): DialogueSnapshot {
+  const { request, mode, pendingSlot, selectedRestaurantId, management } = state;
+  return {
+    request,
+    mode,
+    pendingSlot,
+    selectedRestaurantId,
+    management,
+    clarification: state.clarification ?? null,
+    queue: state.queue ?? null,
+  };
+}
+
+/**
+ * Run one user turn: (state, userText, deps) => { state, messages, effects }
+ * Doesn't touch storage, so it runs the same in the browser, on the server or in a script;
+ * deps does the I/O and messages are the turn's new messages (also appended to state.history)
+ */
+export async function reduceTurn(
+  state: DialogueState,
+  userText: string,
+  deps: DialogueDeps,
+  onStage?: (name: DialogueStageName) => void
+): Promise<{ state: DialogueState; messages: Message[]; effects: DialogueEffect[] }> {
+  const lower = userText.toLowerCase().trim();
+
+  const userMsg: Message = {
+    id: `msg-${Date.now()}-user`,
+    role: "user",
+    text: userText,
+    ts: Date.now(),
+  };
+
+  let nextState: DialogueState;
+  let assistantText: string;
+  let effects: DialogueEffect[] = [];
+  const undo = state.undo ?? [];
+
+  // Dates that have passed since they were given can't be booked: clear them (queued requests too)
+  const today = getVenueToday();
+  const current: DialogueState = {
+    ...state,
+    request: structuredClone(state.request),
+    queue: state.queue ? structuredClone(state.queue) : null,
+  };
+  const passedDate = clearPastDate(current.request, today);
+  current.queue?.pending.forEach((request) => clearPastDate(request, today));
+
+  const newSession = isNewSession(state);
+  const resuming = state.mode === "resuming";
+
+  if (isUndo(lower)) {
+    const previous = undo[undo.length - 1];
+    if (!previous) {
+      nextState = state;
+      assistantText = "There's nothing to undo.";
+    } else {
+      nextState = { ...state, ...previous, undo: undo.slice(0, -1) };
+      const changes = describeRequestChanges(state.request, previous.request);
+      assistantText = changes.length > 0 ? `Undone: ${changes.join(", ")}.` : "Undone.";
+      // Pick up where that turn left off
+      if (previous.mode === "recommending") {
+        const recs = getTopRestaurants(previous.request);
+        effects = [{ type: "recommended", ...recs }];
+        assistantText += `\n${formatRecommendations(recs, previous.request, state)}`;
+      } else if (previous.mode === "collecting" && previous.pendingSlot) {
+        assistantText += ` ${getSlotQuestion(previous.pendingSlot)}`;
+      }
     }
-    if (!newRequest.time && extracted.time.value && extracted.time.confidence > 0.5) {
-      newRequest.time = extracted.time.value;
+  } else if (lower === "reset" || (resuming && isRestartAnswer(lower))) {
+    nextState = {
+      ...state,
+      request: createEmptyRequest(),
+      mode: "collecting",
+      pendingSlot: "area",
+      selectedRestaurantId: null,
+      management: null,
+      clarification: null,
+      queue: null,
+    };
+    assistantText = "Starting fresh. Which area do you want to eat in?";
+  } else if (newSession && !resuming && hasRequestInProgress(current)) {
+    // Back after a long pause: sum up the unfinished request instead of carrying on mid-question
+    nextState = {
+      ...current,
+      mode: "resuming",
+      pendingSlot: null,
+      selectedRestaurantId: null,
+      management: null,
+      clarification: null,
+    };
+    const welcome = getWelcomeText(deps.account, await listBookingsSafely(deps), true);
+    const pending = current.queue?.pending.length ?? 0;
+    assistantText =
+      `${welcome}\nWe were in the middle of ${summarizeRequest(current.request)}` +
+      (pending > 0 ? ` (and ${pending} more request${pending === 1 ? "" : "s"})` : "") +
+      "." +
+      (passedDate ? ` ${passedDate} has passed, so I'll ask for a new date.` : "") +
+      " Want to resume that or start over?";
+  } else if (resuming && isResumeAnswer(lower)) {
+    nextState = { ...current, mode: "collecting" };
+    const slot = getNextMissingSlot(current.request);
+    if (slot === null) {
+      const recs = getTopRestaurants(current.request);
+      effects = [{ type: "recommended", ...recs }];
+      nextState.mode = "recommending";
+      assistantText = `Picking up where we left off.\n${formatRecommendations(recs, current.request, current)}`;
+    } else {
+      nextState.pendingSlot = slot;
+      assistantText = `Picking up where we left off: ${summarizeRequest(current.request)}. ${getSlotQuestion(slot)}`;
     }
+  } else if (passedDate && !newSession && !resuming) {
+    // The date ran out mid-conversation (e.g. past midnight): ask for a new one before anything else
+    nextState = {
+      ...current,
+      mode: "collecting",
+      pendingSlot: "date",
+      selectedRestaurantId: null,
+      management: null,
+      clarification: null,
+    };
+    assistantText = `${passedDate} has passed, so I can't book it anymore. What date should I look at instead?`;
+  } else {
+    // A new session, or something else than resume / start over: begin from a fresh request
+    const fresh = newSession || resuming;
+    const turn: DialogueTurn = {
+      userText,
+      lower,
+      account: deps.account,
+      flow: state.flow,
+      deps,
+      request: resuming ? createEmptyRequest() : current.request,
+      mode: fresh ? "collecting" : state.mode,
+      pendingSlot: fresh ? null : state.pendingSlot,
+      selectedRestaurantId: fresh ? null : state.selectedRestaurantId,
+      management: fresh ? null : state.management,
+      clarification: fresh ? null : state.clarification ?? null,
+      queue: resuming ? null : current.queue ?? null,
+      effects: [],
+    };
 
-    saveActiveRequest(newRequest);
-
-    // Check if all slots are filled
-    const nextSlot = getNextMissingSlot(newRequest);
-    if (nextSlot === null) {
-      // All slots filled - generate recommendations
-      const recs = getTopRestaurants(newRequest);
-      recommendations = recs;
-      newMode = "recommending";
-      saveMode(newMode);
-      savePendingSlot(null);
-
-      const userMsg: Message = {
-        id: `msg-${Date.now()}-user`,
-        role: "user",
-        text: userText,
-        ts: Date.now(),
+    try {
+      await runDialoguePipeline(turn, STAGES, onStage);
+      nextState = {
+        ...state,
+        request: turn.request,
+        mode: turn.mode,
+        pendingSlot: turn.pendingSlot,
+        selectedRestaurantId: turn.selectedRestaurantId,
+        management: turn.management,
+        clarification: turn.clarification,
+        queue: turn.queue,
       };
-      
-      const topReasons = generateReasons(recs.top, newRequest);
-      const alt1Reasons = recs.alternatives[0] ? generateReasons(recs.alternatives[0], newRequest) : [];
-      const alt2Reasons = recs.alternatives[1] ? generateReasons(recs.alternatives[1], newRequest) : [];
-      
-      let recText = `Top pick:\n1) ${recs.top.name} (${recs.top.area}) price: ${recs.top.price === "low" ? "$" : recs.top.price === "mid" ? "$$" : "$$$"} | ${recs.top.cuisines.join(", ")}\n   Why: ${topReasons.join("; ")}\n`;
-      if (recs.alternatives[0]) {
-        recText += `\nAlternatives:\n2) ${recs.alternatives[0].name} (${recs.alternatives[0].area}) price: ${recs.alternatives[0].price === "low" ? "$" : recs.alternatives[0].price === "mid" ? "$$" : "$$$"} | ${recs.alternatives[0].cuisines.join(", ")}\n   Why: ${alt1Reasons.join("; ")}\n`;
-      }
-      if (recs.alternatives[1]) {
-        recText += `3) ${recs.alternatives[1].name} (${recs.alternatives[1].area}) price: ${recs.alternatives[1].price === "low" ? "$" : recs.alternatives[1].price === "mid" ? "$$" : "$$$"} | ${recs.alternatives[1].cuisines.join(", ")}\n   Why: ${alt2Reasons.join("; ")}\n`;
+      const reply = turn.reply ?? getSlotQuestion(getNextMissingSlot(turn.request));
+      assistantText = turn.echo ? `${turn.echo}\n${reply}` : reply;
+      if (newSession) {
+        const welcome = getWelcomeText(deps.account, await listBookingsSafely(deps), getLastActivity(state) !== null);
+        if (welcome) assistantText = `${welcome}\n${assistantText}`;
       }
+      effects = turn.effects;
+    } catch (error) {
+      console.error("Process message error:", error);
+      nextState = state;
+      assistantText = "Sorry, I encountered an error. Please try again.";
+    }
+  }
 
-      const assistantMsg: Message = {
-        id: `msg-${Date.now()}-assistant`,
-        role: "assistant",
-        text: recText,
-        ts: Date.now(),
-      };
-      const updatedMessages = [...messages, userMsg, assistantMsg];
-      saveHistory(updatedMessages);
-      return { response: assistantMsg.text, messages: updatedMessages, recommendations: recs };
-    } else {
-      // Ask for next slot
-      newPendingSlot = nextSlot;
-      savePendingSlot(newPendingSlot);
-      const question = getSlotQuestion(nextSlot);
-      
-      const userMsg: Message = {
-        id: `msg-${Date.now()}-user`,
-        role: "user",
-        text: userText,
-        ts: Date.now(),
-      };
-      const assistantMsg: Message = {
-        id: `msg-${Date.now()}-assistant`,
-        role: "assistant",
-        text: question,
-        ts: Date.now(),
-      };
-      const updatedMessages = [...messages, userMsg, assistantMsg];
-      saveHistory(updatedMessages);
-      return { response: assistantMsg.text, messages: updatedMessages };
+  // Remember the state before this turn for "undo"; a booking or walk-in can't be undone, so it clears the steps
+  if (!isUndo(lower)) {
+    const snapshot = toSnapshot(state);
+    const changed = JSON.stringify(snapshot) !== JSON.stringify(toSnapshot(nextState));
+    if (effects.some((e) => e.type === "booked" || e.type === "walk_in")) {
+      nextState = { ...nextState, undo: [] };
+    } else if (changed) {
+      nextState = { ...nextState, undo: [...undo, snapshot].slice(-MAX_UNDO_STEPS) };
     }
-  } catch (error) {
-    console.error("Process message error:", error);
-    const userMsg: Message = {
-      id: `msg-${Date.now()}-user`,
-      role: "user",
-      text: userText,
-      ts: Date.now(),
-    };
-    const assistantMsg: Message = {
-      id: `msg-${Date.now()}-assistant`,
-      role: "assistant",
-      text: "Sorry, I encountered an error. Please try again.",
-      ts: Date.now(),
-    };
-    const updatedMessages = [...messages, userMsg, assistantMsg];
-    saveHistory(updatedMessages);
-    return { response: assistantMsg.text, messages: updatedMessages };
   }
+
+  const assistantMsg: Message = {
+    id: `msg-${Date.now()}-assistant`,
+    role: "assistant",
+    text: assistantText,
+    ts: Date.now(),
+  };
+  const messages = [userMsg, assistantMsg];
+  return { state: { ...nextState, history: [...state.history, ...messages] }, messages, effects };
+}
+
+export type TurnResult = Awaited<ReturnType<typeof reduceTurn>>;
+
+/**
+ * What a chat client gets back for a turn: the assistant message plus structured results
+ */
+export interface TurnReply {
+  message: Message;
+  recommendations: { top: Restaurant; alternatives: Restaurant[] } | null;
+  bookings: Booking[];
+  mode: DialogueState["mode"];
+  pendingSlot: PendingSlot;
+}
+
+export function getTurnReply(result: TurnResult): TurnReply {
+  const recommended = result.effects.find((e) => e.type === "recommended");
+  const booked = result.effects.find((e) => e.type === "booked");
+  return {
+    message: result.messages[result.messages.length - 1],
+    recommendations:
+      recommended?.type === "recommended" ? { top: recommended.top, alternatives: recommended.alternatives } : null,
+    bookings: booked?.type === "booked" ? booked.bookings : [],
+    mode: result.state.mode,
+    pendingSlot: result.state.pendingSlot,
+  };
+}
+
+/**
+ * Turn dependencies for the browser: the API route wrappers
+ */
+export function createBrowserDialogueDeps(account: Account | null): DialogueDeps {
+  return {
+    account,
+    classifyAndExtract: classifyAndExtractClient,
+    validateSlot: validateSlotClient,
+    normalizeToDB: normalizeToDBClient,
+    understandTurn: understandTurnClient,
+    checkAvailability: checkAvailabilityClient,
+    createBooking: createBookingClient,
+    createBookingSeries: createBookingSeriesClient,
+    listBookings: listBookingsClient,
+    cancelBooking: cancelBookingClient,
+    cancelBookingSeries: cancelBookingSeriesClient,
+    modifyBooking: modifyBookingClient,
+    createWalkIn: createWalkInClient,
+    saveAlias: saveAliasClient,
+  };
+}
+
+/**
+ * Process user message through the streaming chat route (browser: state still lives in localStorage)
+ * The server runs the turn on the state sent with it; handlers see progress as it arrives
+ */
+export async function processMessageStream(
+  userText: string,
+  handlers: ChatStreamHandlers
+): Promise<{ reply: TurnReply; messages: Message[] }> {
+  const account = getAccount();
+  if (!account) {
+    throw new Error("No account selected");
+  }
+
+  const state = await browserConversationStore.load(account);
+  const done = await streamChatClient({ account, text: userText, state }, handlers);
+  if (!done.state) {
+    throw new Error("Chat stream did not return state");
+  }
+  await browserConversationStore.save(account, done.state);
+
+  return { reply: done, messages: done.state.history };
 }
@@ -1,5 +1,24 @@
 import type { Restaurant, ActiveRequest } from "@/types";
 import { RESTAURANTS } from "./restaurants";
+import { canSeatParty, getInventory } from "./availability";
+import { GROUP_PARTY_SIZE } from "./groupBooking";
+import { isWildcard } from "./wildcard";
+
+/**
+ * Drop restaurants whose cuisine, vibe or highlights match anything on the avoid list
+ * Keeps the full list if everything would be dropped
+ */
+function excludeAvoided(restaurants: Restaurant[], avoid: string[] | undefined): Restaurant[] {
+  if (!avoid || avoid.length === 0) return restaurants;
+
+  const kept = restaurants.filter(
+    (r) =>
+      !avoid.some((term) =>
+        [...r.cuisines, ...r.vibe, ...r.highlights].some((value) => value.toLowerCase().includes(term.toLowerCase()))
+      )
+  );
+  return kept.length > 0 ? kept : restaurants;
+}
 
 /**
  * Get top 3 restaurants based on activeRequest
@@ -7,18 +26,28 @@ import { RESTAURANTS } from "./restaurants";
 export function getTopRestaurants(
   activeRequest: ActiveRequest
 ): { top: Restaurant; alternatives: Restaurant[] } {
-  // Filter by area (required)
-  let filtered = RESTAURANTS.filter((r) => {
-    if (!activeRequest.area) return false;
-    return (
-      r.area.toLowerCase().includes(activeRequest.area.toLowerCase()) ||
-      activeRequest.area.toLowerCase().includes(r.area.toLowerCase())
-    );
-  });
+  // Drop venues that can't seat the party; if none can, keep them all so there is still a pick
+  // (the chat flow checks getLargestPartySize before recommending)
+  const seatable = activeRequest.partySize
+    ? RESTAURANTS.filter((r) => canSeatParty(r, activeRequest.partySize!))
+    : RESTAURANTS;
+  const pool = excludeAvoided(seatable.length > 0 ? seatable : RESTAURANTS, activeRequest.avoid);
+  const seen = activeRequest.seenRestaurantIds || [];
+
+  // Filter by area (required; "any" keeps every area and ranks them all)
+  const area = activeRequest.area;
+  let filtered = isWildcard(area)
+    ? pool
+    : pool.filter((r) => {
+        if (!area) return false;
+        return r.area.toLowerCase().includes(area.toLowerCase()) || area.toLowerCase().includes(r.area.toLowerCase());
+      });
 
   if (filtered.length === 0) {
     // Fallback: if no area match, return top rated restaurants
-    filtered = [...RESTAURANTS].sort((a, b) => b.rating - a.rating).slice(0, 3);
+    filtered = [...pool]
+      .sort((a, b) => Number(seen.includes(a.id)) - Number(seen.includes(b.id)) || b.rating - a.rating)
+      .slice(0, 3);
     return {
       top: filtered[0],
       alternatives: filtered.slice(1, 3),
@@ -30,7 +59,7 @@ export function getTopRestaurants(
     let score = 0;
 
     // Exact cuisine match (+10)
-    if (activeRequest.cuisine) {
+    if (activeRequest.cuisine && !isWildcard(activeRequest.cuisine)) {
       const cuisineLower = activeRequest.cuisine.toLowerCase();
       const hasMatch = restaurant.cuisines.some(
         (c) => c.toLowerCase() === cuisineLower || c.toLowerCase().includes(cuisineLower) || cuisineLower.includes(c.toLowerCase())
@@ -41,7 +70,7 @@ export function getTopRestaurants(
     }
 
     // Budget match: exact (+5), +/-1 range (+2)
-    if (activeRequest.budget) {
+    if (activeRequest.budget && !isWildcard(activeRequest.budget)) {
       const budgetMap: Record<1 | 2 | 3 | 4, "low" | "mid" | "high"> = {
         1: "low",
         2: "mid",
@@ -82,6 +111,11 @@ export function getTopRestaurants(
     // Rating boost
     score += restaurant.rating * 0.5;
 
+    // Already offered: push down so "more" shows something new
+    if (seen.includes(restaurant.id)) {
+      score *= 0.3;
+    }
+
     return { restaurant, score };
   });
 
@@ -100,7 +134,7 @@ export function getTopRestaurants(
 export function generateReasons(restaurant: Restaurant, activeRequest: ActiveRequest): string[] {
   const reasons: string[] = [];
 
-  if (activeRequest.cuisine) {
+  if (activeRequest.cuisine && !isWildcard(activeRequest.cuisine)) {
     const cuisineLower = activeRequest.cuisine.toLowerCase();
     const hasCuisineMatch = restaurant.cuisines.some(
       (c) => c.toLowerCase() === cuisineLower || c.toLowerCase().includes(cuisineLower)
@@ -110,6 +144,10 @@ export function generateReasons(restaurant: Restaurant, activeRequest: ActiveReq
     }
   }
 
+  if (activeRequest.partySize && activeRequest.partySize >= GROUP_PARTY_SIZE) {
+    reasons.push(`Seats groups up to ${getInventory(restaurant).maxPartySize}`);
+  }
+
   if (restaurant.rating >= 4.5) {
     reasons.push(`Highly rated`);
   }
@@ -0,0 +1,261 @@
+import type { LLMTask } from "./openai";
+import type { MessageClassification } from "./gptPrompts";
+import { runPrompt } from "./promptRegistry";
+import { getAvailableAreas } from "./parser";
+import { getAvailableCuisines } from "./restaurants";
+import { createEmptyRequest } from "./conversationStore";
+
+/**
+ * Offline NLU evaluation (run with `npm run eval:nlu`, see scripts/evalNlu.ts)
+ * - Golden utterances with the intent and slot values they should give, for a pinned date
+ * - Each one goes through a prompt (classify_extract or understand_turn) and is scored field by field
+ * - Reports per-field and intent accuracy, and what changed against a saved baseline
+ */
+
+export type NluField = "intent" | "area" | "cuisine" | "budget" | "partySize" | "date" | "time";
+
+export const NLU_FIELDS: NluField[] = ["intent", "area", "cuisine", "budget", "partySize", "date", "time"];
+
+export type NluPrompt = Extract<LLMTask, "classify_extract" | "understand_turn">;
+
+type FieldValue = string | number | null;
+
+export interface NluFixture {
+  id: string;
+  message: string;
+  /** Only the fields listed are scored; null means nothing should be extracted */
+  expected: Partial<Record<NluField, FieldValue>>;
+}
+
+export interface NluFixtureSet {
+  /** Relative dates in the fixtures ("tomorrow", "friday") count from this day */
+  currentDate: string;
+  fixtures: NluFixture[];
+}
+
+export interface FieldResult {
+  expected: FieldValue;
+  actual: FieldValue;
+  pass: boolean;
+}
+
+export interface FixtureResult {
+  id: string;
+  message: string;
+  fields: Partial<Record<NluField, FieldResult>>;
+  /** Why the prompt gave no answer, e.g. a missing recording */
+  error?: string;
+}
+
+export interface FieldAccuracy {
+  correct: number;
+  total: number;
+}
+
+export interface NluEvalReport {
+  prompt: NluPrompt;
+  version: number | null;
+  model: string | null;
+  currentDate: string;
+  ts: number;
+  accuracy: Partial<Record<NluField, FieldAccuracy>>;
+  results: FixtureResult[];
+}
+
+export interface NluEvalDiff {
+  accuracy: { field: NluField; before: number | null; after: number | null }[];
+  /** Fields that passed in the baseline and fail now */
+  regressions: { id: string; field: NluField; expected: FieldValue; before: FieldValue; after: FieldValue }[];
+  /** Fields that failed in the baseline and pass now */
+  fixes: { id: string; field: NluField; after: FieldValue }[];
+  /** Fixtures in only one of the two runs */
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * The scored fields of an answer; budget is the 1-4 range
+ */
+function readFields(answer: MessageClassification): Record<NluField, FieldValue> {
+  const { extracted } = answer;
+  return {
+    intent: answer.intent,
+    area: extracted.area.value,
+    cuisine: extracted.cuisine.value,
+    budget: extracted.budget.range,
+    partySize: extracted.partySize,
+    date: extracted.date.value,
+    time: extracted.time.value,
+  };
+}
+
+function normalizeValue(value: FieldValue | undefined): FieldValue {
+  if (value === undefined || value === "") return null;
+  return typeof value === "string" ? value.toLowerCase().trim() : value;
+}
+
+export function scoreFixture(fixture: NluFixture, actual: Record<NluField, FieldValue> | null, error?: string): FixtureResult {
+  const fields: FixtureResult["fields"] = {};
+  NLU_FIELDS.forEach((field) => {
+    if (!(field in fixture.expected)) return;
+    const expected = fixture.expected[field] ?? null;
+    const value = actual ? actual[field] : null;
+    fields[field] = {
+      expected,
+      actual: value,
+      pass: !!actual && normalizeValue(expected) === normalizeValue(value),
+    };
+  });
+  return { id: fixture.id, message: fixture.message, fields, ...(error ? { error } : {}) };
+}
+
+export function getAccuracy(results: FixtureResult[]): NluEvalReport["accuracy"] {
+  const accuracy: NluEvalReport["accuracy"] = {};
+  results.forEach((result) => {
+    NLU_FIELDS.forEach((field) => {
+      const scored = result.fields[field];
+      if (!scored) return;
+      const entry = (accuracy[field] ??= { correct: 0, total: 0 });
+      entry.total++;
+      if (scored.pass) entry.correct++;
+    });
+  });
+  return accuracy;
+}
+
+/**
+ * Send every fixture through the prompt, one at a time, without recording decisions
+ */
+export async function runNluEval(set: NluFixtureSet, prompt: NluPrompt = "classify_extract"): Promise<NluEvalReport> {
+  const results: FixtureResult[] = [];
+  let version: number | null = null;
+  let model: string | null = null;
+
+  for (const fixture of set.fixtures) {
+    const vars =
+      prompt === "classify_extract"
+        ? { userMessage: fixture.message }
+        : {
+            userMessage: fixture.message,
+            pendingSlot: null,
+            currentRequest: createEmptyRequest(),
+            supportedAreas: getAvailableAreas(),
+            supportedCuisines: getAvailableCuisines(),
+          };
+    try {
+      const answer = await runPrompt<MessageClassification>(prompt, vars, { currentDate: set.currentDate, record: false });
+      version = answer.prompt.version;
+      model = answer.model;
+      results.push(scoreFixture(fixture, readFields(answer.data)));
+    } catch (error) {
+      results.push(scoreFixture(fixture, null, error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  return { prompt, version, model, currentDate: set.currentDate, ts: Date.now(), accuracy: getAccuracy(results), results };
+}
+
+function getRate(accuracy: FieldAccuracy | undefined): number | null {
+  return accuracy && accuracy.total > 0 ? accuracy.correct / accuracy.total : null;
+}
+
+export function diffNluReports(baseline: NluEvalReport, current: NluEvalReport): NluEvalDiff {
+  const before = new Map(baseline.results.map((result) => [result.id, result]));
+  const after = new Map(current.results.map((result) => [result.id, result]));
+  const diff: NluEvalDiff = {
+    accuracy: NLU_FIELDS.map((field) => ({
+      field,
+      before: getRate(baseline.accuracy[field]),
+      after: getRate(current.accuracy[field]),
+    })).filter(({ before, after }) => before !== null || after !== null),
+    regressions: [],
+    fixes: [],
+    added: current.results.filter((result) => !before.has(result.id)).map((result) => result.id),
+    removed: baseline.results.filter((result) => !after.has(result.id)).map((result) => result.id),
+  };
+
+  current.results.forEach((result) => {
+    const old = before.get(result.id);
+    if (!old) return;
+    NLU_FIELDS.forEach((field) => {
+      const now = result.fields[field];
+      const then = old.fields[field];
+      if (!now || !then || now.pass === then.pass) return;
+      if (then.pass) {
+        diff.regressions.push({ id: result.id, field, expected: now.expected, before: then.actual, after: now.actual });
+      } else {
+        diff.fixes.push({ id: result.id, field, after: now.actual });
+      }
+    });
+  });
+  return diff;
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "  -  " : `${Math.round(rate * 100)}%`.padStart(5);
+}
+
+function formatValue(value: FieldValue): string {
+  return value === null ? "null" : JSON.stringify(value);
+}
+
+/**
+ * Plain-text report: accuracy per field, failing fixtures, and the diff against the baseline when there is one
+ */
+export function formatNluReport(report: NluEvalReport, diff: NluEvalDiff | null): string {
+  const lines: string[] = [];
+  const version = report.version === null ? "?" : `v${report.version}`;
+  lines.push(`NLU evaluation: ${report.prompt} ${version}, model ${report.model ?? "?"}, ${report.results.length} fixtures, date ${report.currentDate}`);
+  if (report.model === "rules") {
+    lines.push("The answers come from the stub's rules (lib/stubLLM.ts), not a model: this checks the stub, not the prompt");
+  }
+  lines.push("");
+
+  lines.push("Accuracy");
+  NLU_FIELDS.forEach((field) => {
+    const accuracy = report.accuracy[field];
+    if (!accuracy) return;
+    const change = diff?.accuracy.find((entry) => entry.field === field);
+    const delta =
+      change && change.before !== null && change.after !== null && change.before !== change.after
+        ? ` (${change.after > change.before ? "+" : ""}${Math.round((change.after - change.before) * 100)} from ${formatRate(change.before).trim()})`
+        : "";
+    lines.push(`  ${field.padEnd(10)} ${formatRate(getRate(accuracy))}  ${accuracy.correct}/${accuracy.total}${delta}`);
+  });
+
+  const failures = report.results.filter((result) => result.error || Object.values(result.fields).some((f) => !f?.pass));
+  if (failures.length > 0) {
+    lines.push("");
+    lines.push("Failures");
+    failures.forEach((result) => {
+      lines.push(`  ${result.id}: "${result.message}"`);
+      if (result.error) {
+        lines.push(`    error: ${result.error}`);
+        return;
+      }
+      NLU_FIELDS.forEach((field) => {
+        const scored = result.fields[field];
+        if (scored && !scored.pass) {
+          lines.push(`    ${field}: expected ${formatValue(scored.expected)}, got ${formatValue(scored.actual)}`);
+        }
+      });
+    });
+  }
+
+  lines.push("");
+  if (!diff) {
+    lines.push("No baseline to compare with (save one with --save-baseline)");
+    return lines.join("\n");
+  }
+
+  lines.push(`Against the baseline: ${diff.regressions.length} regressions, ${diff.fixes.length} fixes`);
+  diff.regressions.forEach(({ id, field, expected, before, after }) => {
+    lines.push(`  - ${id} ${field}: was ${formatValue(before)}, now ${formatValue(after)} (expected ${formatValue(expected)})`);
+  });
+  diff.fixes.forEach(({ id, field, after }) => {
+    lines.push(`  + ${id} ${field}: now ${formatValue(after)}`);
+  });
+  if (diff.added.length > 0) lines.push(`  new fixtures: ${diff.added.join(", ")}`);
+  if (diff.removed.length > 0) lines.push(`  removed fixtures: ${diff.removed.join(", ")}`);
+  return lines.join("\n");
+}
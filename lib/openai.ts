@@ -1,12 +1,80 @@
 import OpenAI from 'openai';
+import { createHash } from 'crypto';
+import { completeWithRules } from './stubLLM';
+import { getDataFile, readJsonFile, writeJsonFile, withWriteLock } from './fileStore';
+import type { PromptVars } from './prompts';
 
 /**
- * Server-side OpenAI client configuration
+ * Server-side LLM providers
  * This should NEVER be used on the client side
+ *
+ * LLM_PROVIDER picks one:
+ * - "openai": OpenAI (OPENAI_API_KEY)
+ * - "local": an OpenAI-compatible server such as Ollama or llama.cpp (LLM_BASE_URL, optional LLM_API_KEY)
+ * - "stub": deterministic rules, no network; used when LLM_PROVIDER is unset and there is no OPENAI_API_KEY
+ * - "recorded": answers saved earlier (LLM_RECORDINGS_FILE); with LLM_RECORD_FROM set to one of the above,
+ *   missing answers are asked from that provider and saved
+ * LLM_MODEL overrides the model (default gpt-4o-mini, or llama3.1 for "local")
+ * Every call is logged with its latency and token counts, unless LLM_CALL_LOG=off
+ */
+
+export type LLMProviderName = 'openai' | 'local' | 'stub' | 'recorded';
+
+// JSON tasks the app asks for; also the json_schema name sent to OpenAI
+export type LLMTask =
+  | 'classify_extract'
+  | 'validate_slot'
+  | 'normalize_db'
+  | 'answer_analysis'
+  | 'slot_extraction'
+  | 'date_parsing'
+  | 'understand_turn';
+
+export interface LLMRequest<K extends LLMTask = LLMTask> {
+  task: K;
+  /** The prompt version the messages and schema come from */
+  version: number;
+  messages: { role: 'system' | 'user'; content: string }[];
+  /** JSON schema the answer must follow */
+  schema: Record<string, unknown>;
+  temperature?: number;
+  /** The task's inputs as data, for providers that don't read prompts (the stub) */
+  input: PromptVars[K];
+  /** Today as the prompt sees it (YYYY-MM-DD), for relative dates */
+  currentDate?: string;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMResponse<T> {
+  data: T;
+  model: string;
+  /** Null when the provider doesn't count tokens */
+  usage: LLMUsage | null;
+}
+
+/**
+ * Answers are parsed JSON that nothing has checked yet; callers narrow them to the type their prompt's schema asks for
+ */
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  completeJson(request: LLMRequest): Promise<LLMResponse<unknown>>;
+}
+
+const DEFAULT_MODEL = 'gpt-4o-mini';
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * OpenAI client for the "openai" provider
  */
 export function getOpenAIClient(): OpenAI {
   const apiKey = process.env.OPENAI_API_KEY;
-  
+
   if (!apiKey) {
     throw new Error('OPENAI_API_KEY is not set in environment variables');
   }
@@ -16,3 +84,178 @@ export function getOpenAIClient(): OpenAI {
   });
 }
 
+function parseContent(content: string | null | undefined): unknown {
+  if (!content) {
+    throw new Error('No response from the model');
+  }
+  return JSON.parse(content);
+}
+
+function toUsage(usage: OpenAI.CompletionUsage | undefined): LLMUsage | null {
+  return usage ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens } : null;
+}
+
+export function createOpenAIProvider(model = process.env.LLM_MODEL || DEFAULT_MODEL): LLMProvider {
+  return {
+    name: 'openai',
+    model,
+    async completeJson(request) {
+      const completion = await getOpenAIClient().chat.completions.create({
+        model,
+        messages: request.messages,
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: request.task,
+            strict: true,
+            schema: request.schema,
+          },
+        },
+        temperature: request.temperature ?? 0.3,
+      });
+      return {
+        data: parseContent(completion.choices[0]?.message?.content),
+        model: completion.model,
+        usage: toUsage(completion.usage),
+      };
+    },
+  };
+}
+
+/**
+ * OpenAI-compatible local server; most only support plain JSON mode, so the schema goes in the prompt
+ */
+export function createLocalProvider(
+  baseURL = process.env.LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+  model = process.env.LLM_MODEL || DEFAULT_LOCAL_MODEL
+): LLMProvider {
+  const client = new OpenAI({ baseURL, apiKey: process.env.LLM_API_KEY || 'local' });
+  return {
+    name: 'local',
+    model,
+    async completeJson(request) {
+      const completion = await client.chat.completions.create({
+        model,
+        messages: [
+          ...request.messages,
+          { role: 'system', content: `Reply with JSON only, matching this schema: ${JSON.stringify(request.schema)}` },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: request.temperature ?? 0.3,
+      });
+      return {
+        data: parseContent(completion.choices[0]?.message?.content),
+        model,
+        usage: toUsage(completion.usage),
+      };
+    },
+  };
+}
+
+export function createStubProvider(): LLMProvider {
+  return {
+    name: 'stub',
+    model: 'rules',
+    async completeJson(request) {
+      return { data: completeWithRules(request), model: 'rules', usage: null };
+    },
+  };
+}
+
+interface Recording {
+  task: LLMTask;
+  input: PromptVars[LLMTask];
+  data: unknown;
+  model: string;
+}
+
+/**
+ * Replays saved answers, matched on the exact prompt (task, messages and schema)
+ * A changed prompt has no answers until they're recorded again from a live provider
+ */
+export function createRecordedProvider(
+  file = getDataFile(process.env.LLM_RECORDINGS_FILE, 'llm-recordings.json'),
+  live: LLMProvider | null = null
+): LLMProvider {
+  let recordings: Promise<Record<string, Recording>> | null = null;
+  return {
+    name: 'recorded',
+    model: live ? live.model : 'recorded',
+    async completeJson(request) {
+      recordings ??= readJsonFile<Record<string, Recording>>(file, {});
+      const saved = await recordings;
+      const key = createHash('sha256')
+        .update(JSON.stringify([request.task, request.messages, request.schema]))
+        .digest('hex');
+
+      const recording = saved[key];
+      if (recording) return { data: recording.data, model: recording.model, usage: null };
+      if (!live) {
+        throw new Error(`No recorded answer for ${request.task} (record one with LLM_RECORD_FROM=openai)`);
+      }
+
+      const response = await live.completeJson(request);
+      saved[key] = { task: request.task, input: request.input, data: response.data, model: response.model };
+      await withWriteLock(() => writeJsonFile(file, saved));
+      return response;
+    },
+  };
+}
+
+function createProvider(name: string): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return createOpenAIProvider();
+    case 'local':
+      return createLocalProvider();
+    case 'stub':
+      return createStubProvider();
+    case 'recorded':
+      return createRecordedProvider(
+        undefined,
+        process.env.LLM_RECORD_FROM ? createProvider(process.env.LLM_RECORD_FROM) : null
+      );
+    default:
+      throw new Error(`Unknown LLM provider "${name}" (expected openai, local, stub or recorded)`);
+  }
+}
+
+/**
+ * Log each call's task, latency and token counts, e.g. "LLM understand_turn: 812ms, 1630+214 tokens (openai/gpt-4o-mini)"
+ */
+function withCallLogging(inner: LLMProvider): LLMProvider {
+  return {
+    ...inner,
+    async completeJson(request) {
+      const started = Date.now();
+      try {
+        const response = await inner.completeJson(request);
+        const tokens = response.usage
+          ? `${response.usage.promptTokens}+${response.usage.completionTokens} tokens`
+          : 'tokens not counted';
+        console.log(`LLM ${request.task}: ${Date.now() - started}ms, ${tokens} (${inner.name}/${response.model})`);
+        return response;
+      } catch (error) {
+        console.log(`LLM ${request.task}: failed after ${Date.now() - started}ms (${inner.name}/${inner.model})`);
+        throw error;
+      }
+    },
+  };
+}
+
+let provider: LLMProvider | null = null;
+
+/**
+ * The provider chosen by LLM_PROVIDER (created once per server process)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (provider) return provider;
+
+  const name = process.env.LLM_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'stub');
+  if (!process.env.LLM_PROVIDER && name === 'stub') {
+    console.warn('OPENAI_API_KEY is not set: using the rule-based LLM stub');
+  }
+  const created = createProvider(name);
+  provider = process.env.LLM_CALL_LOG === 'off' ? created : withCallLogging(created);
+  return provider;
+}
@@ -1,5 +1,6 @@
 import type { Slots } from "@/types";
 import { RESTAURANTS, getAvailableCuisines } from "./restaurants";
+import { ANY, findWildcardSlots } from "./wildcard";
 
 /**
  * Get all unique areas from the restaurant database
@@ -264,6 +265,13 @@ export function parseUserMessage(
     slotUpdates.dietary = dietaryTerms;
   }
 
+  // "anywhere", "any cuisine", "budget doesn't matter": no preference rather than no answer
+  for (const slot of findWildcardSlots(text)) {
+    if (slot === "area") slotUpdates.area = ANY;
+    if (slot === "cuisine") slotUpdates.cravingCuisines = ANY;
+    if (slot === "budget") slotUpdates.budget = ANY;
+  }
+
   return {
     slotUpdates,
     intent: Object.keys(slotUpdates).length > 0 ? "unknown" : "unknown",
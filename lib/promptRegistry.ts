@@ -0,0 +1,193 @@
+import { createHash } from "crypto";
+import type { PromptDecision } from "@/types";
+import type { LLMRequest, LLMTask } from "./openai";
+import { completeJsonCached } from "./llmCache";
+import { validateJsonSchema } from "./jsonSchema";
+import { getDataFile, readJsonFile, writeJsonFile } from "./fileStore";
+import { PROMPTS, type PromptVars } from "./prompts";
+import { getVenueToday } from "./availability";
+
+/**
+ * Versioned prompts (server-side only)
+ * - Every prompt the app sends is a PromptDefinition in lib/prompts.ts: id, version, messages, schema and fixtures
+ * - Each id serves its latest version; PROMPT_VERSIONS pins another one or splits traffic between two (A/B):
+ *   "validate_slot=1/2:0.2,normalize_db=1" serves validate_slot v2 to 20% of inputs and v1 to the rest
+ * - Each answer is recorded with the version that produced it and a hash of its input
+ */
+
+export interface PromptFixture<Vars> {
+  name: string;
+  vars: Vars;
+  /** Fields the answer should have; other fields aren't checked */
+  expected: Record<string, unknown>;
+}
+
+export interface PromptDefinition<Vars = unknown> {
+  id: LLMTask;
+  version: number;
+  /** What this version is or changed */
+  description: string;
+  /** Whether the messages include today's date; such answers are cached per day */
+  dateRelative: boolean;
+  temperature: number;
+  messages(vars: Vars, currentDate: string): LLMRequest["messages"];
+  schema(vars: Vars): Record<string, unknown>;
+  /** The vars the answer depends on, for the cache key; all of them when left out */
+  cacheInput?(vars: Vars): unknown;
+  fixtures: PromptFixture<Vars>[];
+}
+
+export interface PromptRef {
+  id: LLMTask;
+  version: number;
+}
+
+/** One version, or two with the share of traffic that gets the second */
+interface PromptServing {
+  versions: number[];
+  share: number;
+}
+
+const DECISIONS_FILE = getDataFile(process.env.PROMPT_DECISIONS_FILE, "prompt-decisions.json");
+const MAX_DECISIONS = 1000;
+const DECISION_WRITE_DELAY_MS = 1000;
+const DEFAULT_SHARE = 0.5;
+
+const pendingDecisions: PromptDecision[] = [];
+let decisionTimer: ReturnType<typeof setTimeout> | null = null;
+let decisionWrites: Promise<void> = Promise.resolve();
+
+export function getPromptIds(): LLMTask[] {
+  return Array.from(new Set(PROMPTS.map((prompt) => prompt.id)));
+}
+
+export function getPromptVersions(id: LLMTask): PromptDefinition[] {
+  return PROMPTS.filter((prompt) => prompt.id === id).sort((a, b) => a.version - b.version);
+}
+
+export function getPrompt(id: LLMTask, version?: number): PromptDefinition {
+  const versions = getPromptVersions(id);
+  const prompt = version === undefined ? versions[versions.length - 1] : versions.find((p) => p.version === version);
+  if (!prompt) {
+    throw new Error(`Unknown prompt ${id}${version === undefined ? "" : ` v${version}`}`);
+  }
+  return prompt;
+}
+
+/**
+ * How an id is served: PROMPT_VERSIONS entry "id=1" or "id=1/2[:share]", else its latest version
+ */
+export function getPromptServing(id: LLMTask): PromptServing {
+  const entry = (process.env.PROMPT_VERSIONS || "")
+    .split(",")
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${id}=`));
+  if (!entry) return { versions: [getPrompt(id).version], share: 0 };
+
+  const match = entry.slice(id.length + 1).match(/^(\d+)(?:\/(\d+)(?::(0?\.\d+|1|0))?)?$/);
+  if (!match) {
+    throw new Error(`Invalid PROMPT_VERSIONS entry "${entry}" (expected ${id}=1 or ${id}=1/2:0.5)`);
+  }
+  const versions = [parseInt(match[1], 10), ...(match[2] ? [parseInt(match[2], 10)] : [])];
+  versions.forEach((version) => getPrompt(id, version));
+  return { versions, share: versions.length > 1 ? (match[3] ? parseFloat(match[3]) : DEFAULT_SHARE) : 0 };
+}
+
+/**
+ * Stable 0-1 bucket for a key, so the same input always gets the same version
+ */
+function getBucket(key: string): number {
+  return parseInt(createHash("sha256").update(key).digest("hex").slice(0, 8), 16) / 0xffffffff;
+}
+
+export function choosePrompt(id: LLMTask, abKey: string): PromptDefinition {
+  const { versions, share } = getPromptServing(id);
+  const version = versions.length > 1 && getBucket(`${id}:${abKey}`) < share ? versions[1] : versions[0];
+  return getPrompt(id, version);
+}
+
+/**
+ * Recorded decisions, oldest first, including the ones not written yet
+ */
+export async function listDecisions(): Promise<PromptDecision[]> {
+  const saved = await readJsonFile<PromptDecision[]>(DECISIONS_FILE, []);
+  return [...saved, ...pendingDecisions].slice(-MAX_DECISIONS);
+}
+
+/**
+ * Append the decisions collected since the last write
+ * Writes queue among themselves rather than behind the store lock, since nothing else touches the file
+ */
+function flushDecisions(): void {
+  decisionTimer = null;
+  decisionWrites = decisionWrites
+    .then(async () => {
+      const batch = pendingDecisions.splice(0);
+      if (batch.length === 0) return;
+      const saved = await readJsonFile<PromptDecision[]>(DECISIONS_FILE, []);
+      await writeJsonFile(DECISIONS_FILE, [...saved, ...batch].slice(-MAX_DECISIONS));
+    })
+    // The answers were still used; only their records are missing
+    .catch((error) => console.error("Prompt decision write error:", error));
+}
+
+/**
+ * Queue a decision; they're written in batches a second apart, off the request path
+ */
+function recordDecision(decision: PromptDecision): void {
+  pendingDecisions.push(decision);
+  if (decisionTimer) return;
+  decisionTimer = setTimeout(flushDecisions, DECISION_WRITE_DELAY_MS);
+  // A pending batch doesn't keep a script alive
+  decisionTimer.unref();
+}
+
+function hashInput(input: object): string {
+  return createHash("sha256").update(JSON.stringify(input)).digest("hex");
+}
+
+/**
+ * Render the served version of a prompt, ask the model (through the cache) and record the decision
+ * - abKey picks the A/B bucket; defaults to the inputs
+ * - currentDate renders the prompt for another day than today (evaluations pin it)
+ * - record: false leaves the decision out of the log
+ */
+export async function runPrompt<T = unknown, K extends LLMTask = LLMTask>(
+  id: K,
+  vars: PromptVars[K],
+  options: { abKey?: string; currentDate?: string; record?: boolean } = {}
+): Promise<{ data: T; prompt: PromptRef; model: string }> {
+  const prompt = choosePrompt(id, options.abKey ?? JSON.stringify(vars));
+  const currentDate = options.currentDate ?? getVenueToday(); // YYYY-MM-DD format
+  const input = { ...vars };
+  const schema = prompt.schema(vars);
+
+  const response = await completeJsonCached(
+    {
+      task: id,
+      version: prompt.version,
+      messages: prompt.messages(vars, currentDate),
+      schema,
+      temperature: prompt.temperature,
+      input,
+      currentDate,
+    },
+    {
+      version: prompt.version,
+      currentDate: prompt.dateRelative ? currentDate : undefined,
+      input: prompt.cacheInput?.(vars),
+    }
+  );
+  // Only OpenAI enforces the schema; local models, the stub and recordings are checked here, so the answer can be read as T
+  const errors = validateJsonSchema(response.data, schema);
+  if (errors.length > 0) {
+    throw new Error(`${id} v${prompt.version} answer from ${response.model} doesn't match its schema: ${errors.join("; ")}`);
+  }
+  const data = response.data as T;
+  const { model } = response;
+
+  if (options.record !== false) {
+    recordDecision({ prompt: id, version: prompt.version, model, inputHash: hashInput(input), output: data, ts: Date.now() });
+  }
+  return { data, prompt: { id, version: prompt.version }, model };
+}
@@ -0,0 +1,1051 @@
+import type { Slots } from "@/types";
+import type { LLMRequest } from "./openai";
+import type { PromptDefinition } from "./promptRegistry";
+import type { MessageIntent, ValidatedSlotName, UnderstandTurnInput } from "./gptPrompts";
+import { getAvailableAreas } from "./parser";
+import { getAvailableCuisines } from "./restaurants";
+
+/**
+ * Every prompt the app sends, by id and version (see lib/promptRegistry.ts)
+ * To change a prompt, add a new version next to the old one rather than editing it:
+ * answers are cached and recorded per version, and PROMPT_VERSIONS can serve both side by side
+ */
+
+export interface ClassifyExtractVars {
+  userMessage: string;
+}
+
+export interface ValidateSlotVars {
+  slotName: ValidatedSlotName;
+  userReply: string;
+  supportedChoices?: string[];
+}
+
+export interface NormalizeDbVars {
+  rawArea: string | null;
+  rawCuisine: string | null;
+  supportedAreas: string[];
+  supportedCuisines: string[];
+}
+
+export interface AnswerAnalysisVars {
+  question: string;
+  userAnswer: string;
+  questionType: "area" | "mealTime" | "partySize" | "budget" | "cuisine" | "vibe" | "dietary";
+  /** Areas or cuisines to choose from; defaults to the restaurant list */
+  availableValues?: string[];
+}
+
+export interface SlotExtractionVars {
+  userMessage: string;
+  currentSlots: Partial<Slots>;
+  question?: string;
+  questionType?: AnswerAnalysisVars["questionType"];
+}
+
+export interface DateParsingVars {
+  dateString: string;
+}
+
+/** Each prompt's vars by id; LLMRequest carries them as its input */
+export interface PromptVars {
+  classify_extract: ClassifyExtractVars;
+  validate_slot: ValidateSlotVars;
+  normalize_db: NormalizeDbVars;
+  answer_analysis: AnswerAnalysisVars;
+  slot_extraction: SlotExtractionVars;
+  date_parsing: DateParsingVars;
+  understand_turn: UnderstandTurnInput;
+}
+
+/** answer_analysis answer; interpretation may come back as the string "null" */
+export interface AnswerAnalysis {
+  interpretation: string | null;
+  confidence: number;
+  isOffTopic: boolean;
+  offTopicConfidence: number;
+  message: string;
+}
+
+/** slot_extraction answer; strings may come back as "null" */
+export interface SlotExtraction {
+  area: string | null;
+  mealTime: string | null;
+  partySize: number | null;
+  budget: string | null;
+  cravingCuisines: string[];
+  vibe: string | null;
+  dietary: string[];
+}
+
+/** date_parsing answer; date is YYYY-MM-DD, or null (or "null") when it isn't a date */
+export interface DateParsing {
+  date: string | null;
+  confidence: number;
+}
+
+function getNextDay(date: string): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + 86400000).toISOString().split("T")[0];
+}
+
+/**
+ * Which intents exist; shared by Prompt A and Prompt D
+ */
+function getIntentRules(): string {
+  return `intent must be one of:
+"greeting_or_offtopic", "restaurant_request", "slot_answer", "refinement", "cancel_booking", "modify_booking", "other"
+Booking management intents (only when the user refers to a reservation they ALREADY made):
+- "cancel_booking": "cancel my booking", "we can't make it on friday anymore"
+- "modify_booking": "move my reservation to 9pm", "change my booking to 4 people", "can we push it to saturday"
+  For modify_booking, extract the NEW date/time/partySize they want.`;
+}
+
+/**
+ * What to extract and how to normalize it; shared by Prompt A and Prompt D
+ */
+function getExtractionRules(currentDate: string, requestText = false): string {
+  return `Extract if present else null:
+area, cuisine, budget_label, budget_range(1-4), partySize, date, time, notes
+Normalization rules:
+- If message mentions a dish/food, infer cuisine when reasonable:
+  tiramisu/pasta/pizza -> Italian
+  sushi/ramen -> Japanese
+  tacos/burrito -> Mexican
+  shawarma/manakish -> Lebanese
+  steak -> Steakhouse/American
+- Handle typos as best guess but include confidence 0-1 for area/cuisine.
+- "No preference" is not a value: for "any cuisine", "anywhere", "budget doesn't matter" leave that field null.
+- Budget mapping:
+  low/cheap/budget -> 1
+  mid/medium/moderate -> 2 (note: "mid" is common and valid)
+  high/expensive -> 3
+  luxury/fine dining -> 4
+  Numbers: "1" -> 1, "2" -> 2, "3" -> 3, "4" -> 4 (direct mapping)
+  Dollar amounts: "$50-100", "50-100" -> 1, "$100-200", "100-200" -> 2, "$200-400", "200-400" -> 3, "$400+", "400+" -> 4
+- Date parsing (IMPORTANT: Current date is ${currentDate}):
+  "today" -> ${currentDate}
+  "tomorrow" -> ${getNextDay(currentDate)}
+  Relative dates should be converted to YYYY-MM-DD format using current date as reference
+  Examples: "next monday", "friday", "this weekend" -> convert to YYYY-MM-DD
+- Time hints: 8pm, 20:00 -> normalize to HH:mm format
+Several requests in one message:
+- If the user asks for more than one separate meal ("Italian in Downtown for 4 tomorrow at 8, and also something for brunch Sunday"),
+  put the first in "extracted" and each further one in "additionalRequests", in the order given.
+- Details belong to the request they were said with; don't copy them across.${requestText ? `
+- Give each additional request a "text": the user's words for it ("something for brunch Sunday"), so a meal or wish with no slot isn't lost.` : ""}
+- Otherwise "additionalRequests" is [].`;
+}
+
+const EXTRACTED_SCHEMA = {
+  type: "object",
+  properties: {
+    area: {
+      type: "object",
+      properties: {
+        value: { type: ["string", "null"] },
+        confidence: { type: "number", minimum: 0, maximum: 1 },
+      },
+      required: ["value", "confidence"],
+      additionalProperties: false,
+    },
+    cuisine: {
+      type: "object",
+      properties: {
+        value: { type: ["string", "null"] },
+        confidence: { type: "number", minimum: 0, maximum: 1 },
+      },
+      required: ["value", "confidence"],
+      additionalProperties: false,
+    },
+    budget: {
+      type: "object",
+      properties: {
+        label: { type: ["string", "null"] },
+        range: { type: ["integer", "null"], minimum: 1, maximum: 4 },
+      },
+      required: ["label", "range"],
+      additionalProperties: false,
+    },
+    partySize: { type: ["integer", "null"] },
+    date: {
+      type: "object",
+      properties: {
+        value: { type: ["string", "null"] },
+        confidence: { type: "number", minimum: 0, maximum: 1 },
+      },
+      required: ["value", "confidence"],
+      additionalProperties: false,
+    },
+    time: {
+      type: "object",
+      properties: {
+        value: { type: ["string", "null"] },
+        confidence: { type: "number", minimum: 0, maximum: 1 },
+      },
+      required: ["value", "confidence"],
+      additionalProperties: false,
+    },
+    notes: { type: ["string", "null"] },
+  },
+  required: ["area", "cuisine", "budget", "partySize", "date", "time", "notes"],
+  additionalProperties: false,
+};
+
+const VALIDATION_SCHEMA = {
+  type: "object",
+  properties: {
+    slot: { type: "string" },
+    value: { type: ["string", "number", "null"] },
+    normalized: { type: ["string", "number", "null"] },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+  },
+  required: ["slot", "value", "normalized", "confidence"],
+  additionalProperties: false,
+};
+
+const MATCH_SCHEMA = {
+  type: "object",
+  properties: {
+    input: { type: ["string", "null"] },
+    matched: { type: ["string", "null"] },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+  },
+  required: ["input", "matched", "confidence"],
+  additionalProperties: false,
+};
+
+const NORMALIZATION_SCHEMA = {
+  type: "object",
+  properties: {
+    areaMatch: MATCH_SCHEMA,
+    cuisineMatch: MATCH_SCHEMA,
+    unavailable: {
+      type: "object",
+      properties: {
+        area: { type: "boolean" },
+        cuisine: { type: "boolean" },
+      },
+      required: ["area", "cuisine"],
+      additionalProperties: false,
+    },
+  },
+  required: ["areaMatch", "cuisineMatch", "unavailable"],
+  additionalProperties: false,
+};
+
+const INTENTS: MessageIntent[] = [
+  "greeting_or_offtopic",
+  "restaurant_request",
+  "slot_answer",
+  "refinement",
+  "cancel_booking",
+  "modify_booking",
+  "other",
+];
+
+// A further request in the same message, with the user's words for it (v2 prompts)
+const ADDITIONAL_REQUEST_SCHEMA = {
+  ...EXTRACTED_SCHEMA,
+  properties: { ...EXTRACTED_SCHEMA.properties, text: { type: "string" } },
+  required: [...EXTRACTED_SCHEMA.required, "text"],
+};
+
+const CLASSIFY_EXTRACT_SCHEMA = {
+  type: "object",
+  properties: {
+    intent: { type: "string", enum: INTENTS },
+    extracted: EXTRACTED_SCHEMA,
+    additionalRequests: { type: "array", items: EXTRACTED_SCHEMA },
+  },
+  required: ["intent", "extracted", "additionalRequests"],
+  additionalProperties: false,
+};
+
+const UNDERSTAND_TURN_SCHEMA = {
+  type: "object",
+  properties: {
+    intent: { type: "string", enum: INTENTS },
+    extracted: EXTRACTED_SCHEMA,
+    additionalRequests: { type: "array", items: EXTRACTED_SCHEMA },
+    validation: VALIDATION_SCHEMA,
+    normalization: NORMALIZATION_SCHEMA,
+    additionalNormalizations: { type: "array", items: NORMALIZATION_SCHEMA },
+  },
+  required: ["intent", "extracted", "additionalRequests", "validation", "normalization", "additionalNormalizations"],
+  additionalProperties: false,
+};
+
+const CLASSIFY_EXTRACT_SCHEMA_V2 = {
+  ...CLASSIFY_EXTRACT_SCHEMA,
+  properties: { ...CLASSIFY_EXTRACT_SCHEMA.properties, additionalRequests: { type: "array", items: ADDITIONAL_REQUEST_SCHEMA } },
+};
+
+const UNDERSTAND_TURN_SCHEMA_V2 = {
+  ...UNDERSTAND_TURN_SCHEMA,
+  properties: { ...UNDERSTAND_TURN_SCHEMA.properties, additionalRequests: { type: "array", items: ADDITIONAL_REQUEST_SCHEMA } },
+};
+
+/**
+ * Prompt A: Classify intent and extract normalized dining preferences
+ */
+const classifyExtractV1: PromptDefinition<ClassifyExtractVars> = {
+  id: "classify_extract",
+  version: 1,
+  description: "Intent, slots and further requests in one message",
+  dateRelative: true,
+  temperature: 0.3,
+  messages: (vars, currentDate) => getClassifyExtractMessages(vars, currentDate, false),
+  schema: () => CLASSIFY_EXTRACT_SCHEMA,
+  fixtures: [
+    { name: "greeting", vars: { userMessage: "hey there" }, expected: { intent: "greeting_or_offtopic" } },
+    {
+      name: "dish and mid budget",
+      vars: { userMessage: "romantic pasta place in Downtown for 2, mid budget" },
+      expected: {
+        intent: "restaurant_request",
+        "extracted.area.value": "Downtown",
+        "extracted.cuisine.value": "Italian",
+        "extracted.budget.range": 2,
+        "extracted.partySize": 2,
+      },
+    },
+    { name: "cancel", vars: { userMessage: "cancel my booking on friday" }, expected: { intent: "cancel_booking" } },
+  ],
+};
+
+/**
+ * Prompt A v2: also the user's words for each further request, so "something for brunch Sunday" keeps its meal
+ */
+const classifyExtractV2: PromptDefinition<ClassifyExtractVars> = {
+  ...classifyExtractV1,
+  version: 2,
+  description: "v1, plus the user's words for each further request",
+  messages: (vars, currentDate) => getClassifyExtractMessages(vars, currentDate, true),
+  schema: () => CLASSIFY_EXTRACT_SCHEMA_V2,
+  fixtures: [
+    ...classifyExtractV1.fixtures,
+    {
+      name: "second request with a meal",
+      vars: { userMessage: "Italian in Downtown for 4 tomorrow at 8, and also something for brunch Sunday" },
+      expected: { "additionalRequests.0.text": "something for brunch Sunday" },
+    },
+  ],
+};
+
+function getClassifyExtractMessages(
+  { userMessage }: ClassifyExtractVars,
+  currentDate: string,
+  requestText: boolean
+): LLMRequest["messages"] {
+  return [
+    { role: "system", content: `You are a restaurant assistant message parser. Output strict JSON only. No extra text.` },
+    {
+      role: "user",
+      content: `Classify intent and extract normalized dining preferences from this message.
+CURRENT DATE: ${currentDate} (use this as reference for relative dates like "today", "tomorrow")
+${getIntentRules()}
+${getExtractionRules(currentDate, requestText)}
+Return exactly:
+{
+  "intent": "...",
+  "extracted": {
+    "area": {"value": string|null, "confidence": number},
+    "cuisine": {"value": string|null, "confidence": number},
+    "budget": {"label": string|null, "range": 1|2|3|4|null},
+    "partySize": number|null,
+    "date": {"value": string|null, "confidence": number},
+    "time": {"value": string|null, "confidence": number},
+    "notes": string|null
+  },
+  "additionalRequests": [ same shape as "extracted"${requestText ? `, plus "text": string` : ""} ]
+}
+Message: """${userMessage}"""`,
+    },
+  ];
+}
+
+/**
+ * Prompt B: Validate a slot answer
+ */
+const validateSlotV1: PromptDefinition<ValidateSlotVars> = {
+  id: "validate_slot",
+  version: 1,
+  description: "A reply to the question for one slot",
+  dateRelative: true,
+  temperature: 0.3,
+  messages: ({ slotName, userReply, supportedChoices }, currentDate) => {
+    const choicesText = supportedChoices ? JSON.stringify(supportedChoices) : "[]";
+    const dateRules = slotName === "date" ? `
+- date (CURRENT DATE: ${currentDate}): normalize to yyyy-mm-dd format using current date as reference:
+  "today" -> ${currentDate}
+  "tomorrow" -> ${getNextDay(currentDate)}
+  "next monday", "friday", etc. -> calculate and return as YYYY-MM-DD
+  Relative dates MUST be converted to actual dates, not kept as natural language.` : `- date: normalize to yyyy-mm-dd if possible else keep natural language.`;
+    return [
+      { role: "system", content: `You validate a short user reply to a specific slot question. Output strict JSON only.` },
+      {
+        role: "user",
+        content: `Slot: "${slotName}" (area|cuisine|budget|date|time|partySize|notes)
+CURRENT DATE: ${currentDate}${slotName === "date" ? " (use this as reference for relative dates)" : ""}
+Supported choices (if any): ${choicesText}
+User reply: """${userReply}"""
+Return:
+{
+  "slot": "${slotName}",
+  "value": string|number|null,
+  "normalized": string|number|null,
+  "confidence": number
+}
+Rules:
+- If reply does NOT answer the slot, normalized must be null and confidence <= 0.3.
+- area, cuisine, budget: if the user has no preference ("any", "anywhere", "doesn't matter", "whatever", "surprise me"),
+  value and normalized must be "any" with confidence 0.9.
+- budget: normalized must be 1-4 (number). Mapping:
+  Text: low/cheap/budget -> 1, mid/medium/moderate -> 2, high/expensive -> 3, luxury/fine dining -> 4. "mid" is common and valid, map it to 2.
+  Numbers: "1" -> 1, "2" -> 2, "3" -> 3, "4" -> 4 (direct mapping if user says just the number)
+  Dollar amounts (per person, approximate): $50-100 or "50-100" -> 1, $100-200 or "100-200" -> 2, $200-400 or "200-400" -> 3, $400+ or "400+" -> 4
+- partySize: normalized integer.
+- time: normalize to HH:mm if possible.
+${dateRules}`,
+      },
+    ];
+  },
+  schema: () => VALIDATION_SCHEMA,
+  fixtures: [
+    { name: "budget word", vars: { slotName: "budget", userReply: "mid" }, expected: { normalized: 2 } },
+    { name: "party size", vars: { slotName: "partySize", userReply: "just the two of us" }, expected: { normalized: 2 } },
+    {
+      name: "area choice",
+      vars: { slotName: "area", userReply: "downtown please", supportedChoices: ["Downtown", "Al Wasl", "Dubai Marina"] },
+      expected: { normalized: "Downtown" },
+    },
+  ],
+};
+
+/**
+ * Prompt C: Normalize area/cuisine to DB values
+ */
+const normalizeDbV1: PromptDefinition<NormalizeDbVars> = {
+  id: "normalize_db",
+  version: 1,
+  description: "Extracted area and cuisine matched to the restaurant list",
+  dateRelative: false,
+  temperature: 0.3,
+  messages: ({ rawArea, rawCuisine, supportedAreas, supportedCuisines }) => [
+    { role: "system", content: `You map extracted values to the closest supported database values. Output strict JSON only.` },
+    {
+      role: "user",
+      content: `Supported areas: ${JSON.stringify(supportedAreas)}
+Supported cuisines: ${JSON.stringify(supportedCuisines)}
+Input:
+{ "area": "${rawArea || ""}", "cuisine": "${rawCuisine || ""}" }
+Return:
+{
+  "areaMatch": {"input": string|null, "matched": string|null, "confidence": number},
+  "cuisineMatch": {"input": string|null, "matched": string|null, "confidence": number},
+  "unavailable": {"area": boolean, "cuisine": boolean}
+}
+Rules:
+- If input is null: matched null, unavailable false.
+- If no close match exists: matched null and unavailable true.`,
+    },
+  ],
+  schema: () => NORMALIZATION_SCHEMA,
+  fixtures: [
+    {
+      name: "typo and dish",
+      vars: { rawArea: "dubai marna", rawCuisine: "sushi", supportedAreas: ["Dubai Marina", "Downtown"], supportedCuisines: ["Japanese", "Italian"] },
+      expected: { "areaMatch.matched": "Dubai Marina", "cuisineMatch.matched": "Japanese" },
+    },
+    {
+      name: "not covered",
+      vars: { rawArea: "Abu Dhabi", rawCuisine: null, supportedAreas: ["Dubai Marina", "Downtown"], supportedCuisines: ["Japanese"] },
+      expected: { "unavailable.area": true, "unavailable.cuisine": false },
+    },
+  ],
+};
+
+/**
+ * Prompt D: Prompts A, B and C in one call - classify, validate the pending slot and match the DB
+ */
+const understandTurnV1: PromptDefinition<UnderstandTurnInput> = {
+  id: "understand_turn",
+  version: 1,
+  description: "Prompts A, B and C in one call",
+  dateRelative: true,
+  temperature: 0.3,
+  messages: (vars, currentDate) => getUnderstandTurnMessages(vars, currentDate, false),
+  schema: () => UNDERSTAND_TURN_SCHEMA,
+  // The current request changes nearly every turn but is only context; keying on it would leave the cache cold
+  cacheInput: ({ userMessage, pendingSlot, supportedAreas, supportedCuisines }) => ({
+    userMessage,
+    pendingSlot,
+    supportedAreas,
+    supportedCuisines,
+  }),
+  fixtures: [
+    {
+      name: "budget answer",
+      vars: {
+        userMessage: "mid please",
+        pendingSlot: { name: "budget" },
+        currentRequest: {
+          area: "Downtown",
+          cuisine: "Italian",
+          budget: null,
+          partySize: null,
+          date: null,
+          time: null,
+          notes: null,
+          recurrence: null,
+          seenRestaurantIds: [],
+        },
+        supportedAreas: ["Downtown", "Dubai Marina"],
+        supportedCuisines: ["Italian", "Japanese"],
+      },
+      expected: { "validation.normalized": 2 },
+    },
+  ],
+};
+
+/**
+ * Prompt D v2: also the user's words for each further request, as in Prompt A v2
+ */
+const understandTurnV2: PromptDefinition<UnderstandTurnInput> = {
+  ...understandTurnV1,
+  version: 2,
+  description: "v1, plus the user's words for each further request",
+  messages: (vars, currentDate) => getUnderstandTurnMessages(vars, currentDate, true),
+  schema: () => UNDERSTAND_TURN_SCHEMA_V2,
+};
+
+function getUnderstandTurnMessages(
+  { userMessage, pendingSlot, currentRequest, supportedAreas, supportedCuisines }: UnderstandTurnInput,
+  currentDate: string,
+  requestText: boolean
+): LLMRequest["messages"] {
+  return [
+    { role: "system", content: `You are a restaurant assistant message parser. Output strict JSON only. No extra text.` },
+    {
+      role: "user",
+      content: `Read one chat message from a user booking a restaurant. Do three things in one answer.
+CURRENT DATE: ${currentDate} (use this as reference for relative dates like "today", "tomorrow")
+1) Classify intent and extract dining preferences ("intent", "extracted", "additionalRequests").
+${getIntentRules()}
+${getExtractionRules(currentDate, requestText)}
+2) Validate the message as an answer to the pending slot ("validation").
+Pending slot: ${pendingSlot ? `"${pendingSlot.name}"` : "none"}
+Supported choices (if any): ${JSON.stringify(pendingSlot?.choices ?? [])}
+- No pending slot: slot "", value null, normalized null, confidence 0.
+- If the message does NOT answer the slot, normalized must be null and confidence <= 0.3.
+- area, cuisine, budget: if the user has no preference ("any", "anywhere", "doesn't matter", "whatever", "surprise me"),
+  value and normalized must be "any" with confidence 0.9.
+- area, cuisine: normalized must be one of the supported choices.
+- budget: normalized is 1-4 (number), same mapping as above. partySize: integer. time: HH:mm. date: YYYY-MM-DD.
+3) Match extracted area and cuisine to the database ("normalization", and one entry in "additionalNormalizations" per additional request).
+Supported areas: ${JSON.stringify(supportedAreas)}
+Supported cuisines: ${JSON.stringify(supportedCuisines)}
+- input is the extracted value; matched is the closest supported value with a confidence 0-1.
+- If input is null: matched null, unavailable false.
+- If no close match exists: matched null and unavailable true.
+Current request (already answered): ${JSON.stringify(currentRequest)}
+Message: """${userMessage}"""`,
+    },
+  ];
+}
+
+// Output for a question type: interpretation is one of its values
+function getAnswerAnalysisSchema({ questionType, availableValues }: AnswerAnalysisVars): Record<string, unknown> {
+  if (questionType === "cuisine") {
+    const cuisines = availableValues || getAvailableCuisines();
+    return {
+      type: "object",
+      properties: {
+        interpretation: {
+          type: "string",
+          description: `The exact cuisine name from the available list that best matches the user's answer, or null if no good match`,
+          enum: cuisines.length > 0 ? cuisines : undefined,
+        },
+        confidence: {
+          type: "number",
+          minimum: 0,
+          maximum: 1,
+          description: "Confidence that the interpretation is correct (0-1)",
+        },
+        isOffTopic: {
+          type: "boolean",
+          description: "True if the answer is clearly off-topic (not about cuisine/restaurants)",
+        },
+        offTopicConfidence: {
+          type: "number",
+          minimum: 0,
+          maximum: 1,
+          description: "Confidence that the answer is off-topic (0-1)",
+        },
+        message: {
+          type: "string",
+          description: "Friendly message to show user if interpretation is unclear or off-topic",
+        },
+      },
+      required: ["interpretation", "confidence", "isOffTopic", "offTopicConfidence", "message"],
+      additionalProperties: false,
+    };
+  } else if (questionType === "area") {
+    const areas = availableValues || getAvailableAreas();
+    return {
+      type: "object",
+      properties: {
+        interpretation: {
+          type: "string",
+          description: `The exact area name from the available list that best matches the user's answer. Must be one of: ${areas.join(", ")}. If the answer is a cuisine/food type (like "italian", "pizza") instead of a location, return the string "null"`,
+          enum: areas.length > 0 ? areas : undefined,
+        },
+        confidence: {
+          type: "number",
+          minimum: 0,
+          maximum: 1,
+        },
+        isOffTopic: {
+          type: "boolean",
+        },
+        offTopicConfidence: {
+          type: "number",
+          minimum: 0,
+          maximum: 1,
+        },
+        message: {
+          type: "string",
+        },
+      },
+      required: ["interpretation", "confidence", "isOffTopic", "offTopicConfidence", "message"],
+      additionalProperties: false,
+    };
+  } else if (questionType === "budget") {
+    return {
+      type: "object",
+      properties: {
+        interpretation: {
+          type: "string",
+          enum: ["cheap", "mid", "high"],
+          description: "The budget level, or null if unclear",
+        },
+        confidence: {
+          type: "number",
+          minimum: 0,
+          maximum: 1,
+        },
+        isOffTopic: {
+          type: "boolean",
+        },
+        offTopicConfidence: {
+          type: "number",
+          minimum: 0,
+          maximum: 1,
+        },
+        message: {
+          type: "string",
+        },
+      },
+      required: ["interpretation", "confidence", "isOffTopic", "offTopicConfidence", "message"],
+      additionalProperties: false,
+    };
+  } else if (questionType === "mealTime") {
+    return {
+      type: "object",
+      properties: {
+        interpretation: {
+          type: "string",
+          enum: ["breakfast", "lunch", "dinner", "coffee", "drinks", "late-night"],
+          description: "The meal time, or null if unclear",
+        },
+        confidence: {
+          type: "number",
+          minimum: 0,
+          maximum: 1,
+        },
+        isOffTopic: {
+          type: "boolean",
+        },
+        offTopicConfidence: {
+          type: "number",
+          minimum: 0,
+          maximum: 1,
+        },
+        message: {
+          type: "string",
+        },
+      },
+      required: ["interpretation", "confidence", "isOffTopic", "offTopicConfidence", "message"],
+      additionalProperties: false,
+    };
+  } else if (questionType === "vibe") {
+    return {
+      type: "object",
+      properties: {
+        interpretation: {
+          type: "string",
+          enum: ["romantic", "lively", "quiet", "outdoor", "family", "business"],
+          description: "The vibe, or null if unclear",
+        },
+        confidence: {
+          type: "number",
+          minimum: 0,
+          maximum: 1,
+        },
+        isOffTopic: {
+          type: "boolean",
+        },
+        offTopicConfidence: {
+          type: "number",
+          minimum: 0,
+          maximum: 1,
+        },
+        message: {
+          type: "string",
+        },
+      },
+      required: ["interpretation", "confidence", "isOffTopic", "offTopicConfidence", "message"],
+      additionalProperties: false,
+    };
+  }
+  throw new Error(`No answer analysis for ${questionType}`);
+}
+
+// The values a question type can take
+function getAnswerAnalysisContext({ questionType, availableValues }: AnswerAnalysisVars): string {
+  if (questionType === "cuisine") {
+    const cuisines = availableValues || getAvailableCuisines();
+    return `Available cuisines: ${cuisines.join(", ")}`;
+  } else if (questionType === "area") {
+    const areas = availableValues || getAvailableAreas();
+    return `Available areas: ${areas.join(", ")}`;
+  } else if (questionType === "budget") {
+    return "Available budgets: cheap, mid, high";
+  } else if (questionType === "mealTime") {
+    return "Available meal times: breakfast, lunch, dinner, coffee, drinks, late-night";
+  } else if (questionType === "vibe") {
+    return "Available vibes: romantic, lively, quiet, outdoor, family, business";
+  }
+  return "";
+}
+
+// Context-specific instructions
+function getAnswerAnalysisGuidance({ questionType, availableValues }: AnswerAnalysisVars): string {
+  if (questionType === "area") {
+    const areas = availableValues || getAvailableAreas();
+    return `This question asks for a LOCATION/NEIGHBORHOOD/AREA from the available areas: ${areas.join(", ")}.
+
+IMPORTANT: Use natural language understanding to interpret location-related expressions.
+- Only match if the answer clearly refers to one of the available locations
+- If the user answers with a CUISINE (like "italian") or FOOD TYPE (like "pizza"), mark as OFF-TOPIC
+- If the user answers with a location NOT in the available list (like "dubai", "new york"), mark as OFF-TOPIC and explain it's not in our database
+- Only mark as off-topic if the answer cannot be reasonably interpreted as one of the available areas`;
+  } else if (questionType === "cuisine") {
+    const cuisines = availableValues || getAvailableCuisines();
+    return `This question asks for a CUISINE TYPE from the available cuisines: ${cuisines.join(", ")}.
+
+IMPORTANT: Use natural language understanding to interpret food-related expressions.
+- Interpret food names and dishes contextually (e.g., "burgers" -> "American", "pizza" -> "Italian", "sushi" -> "Japanese")
+- Be generous - if it makes sense in context, map it to the closest match
+- If the user answers with a LOCATION/AREA instead, mark as OFF-TOPIC
+- If the user answers with a cuisine type NOT in the available list, mark as OFF-TOPIC and explain it's not in our database
+- Only mark as off-topic if the answer cannot be reasonably interpreted as a cuisine`;
+  } else if (questionType === "budget") {
+    return `This question asks for a BUDGET LEVEL: cheap, mid, or high.
+
+IMPORTANT: Use natural language understanding to interpret price-related expressions.
+- Interpret cost-related terms contextually (e.g., "affordable", "expensive", "budget-friendly", "$", "$$$")
+- Be generous - if it makes sense in context, map it to the closest match
+- Only mark as off-topic if the answer cannot be reasonably interpreted as a budget level`;
+  } else if (questionType === "mealTime") {
+    return `This question asks for a MEAL TIME: breakfast, lunch, dinner, coffee, drinks, or late-night.
+
+IMPORTANT: Use natural language understanding to interpret time-related expressions.
+- Interpret time expressions contextually (e.g., "noon"/"midday"/"during the day"/"lunchtime" -> "lunch")
+- Interpret meal names and time periods that relate to meal times
+- Be generous - if it makes sense in context, map it to the closest match
+- Only mark as off-topic if the answer cannot be reasonably interpreted as a meal time`;
+  } else if (questionType === "vibe") {
+    return `This question asks for a VIBE: romantic, lively, quiet, outdoor, family, or business.
+
+IMPORTANT: Use natural language understanding to interpret atmosphere-related expressions.
+- Interpret atmosphere descriptions contextually (e.g., "casual", "fancy", "cozy", "energetic")
+- Be generous - if it makes sense in context, map it to the closest match
+- Only mark as off-topic if the answer cannot be reasonably interpreted as an atmosphere/vibe`;
+  }
+  return "";
+}
+
+/**
+ * Map an answer to a question onto the supported values (/api/analyze-answer)
+ */
+const answerAnalysisV1: PromptDefinition<AnswerAnalysisVars> = {
+  id: "answer_analysis",
+  version: 1,
+  description: "An answer to a question mapped onto the supported values, or off-topic",
+  dateRelative: false,
+  temperature: 0.3,
+  messages: (vars) => {
+    const { question, userAnswer, questionType } = vars;
+    const contextPrompt = getAnswerAnalysisContext(vars);
+    const typeSpecificGuidance = getAnswerAnalysisGuidance(vars);
+    return [
+      {
+        role: "system",
+        content: `You are a helpful restaurant assistant analyzing user answers to questions.
+
+Question: "${question}"
+User Answer: "${userAnswer}"
+Question Type: ${questionType}
+${contextPrompt}
+
+${typeSpecificGuidance}
+
+Your task:
+1. Use your natural language understanding to interpret what the user means
+2. Try to map the user's answer to one of the available values using common sense and context
+   - Interpret expressions contextually (e.g., "noon" -> "lunch", "burgers" -> "American", "affordable" -> "cheap")
+   - Be GENEROUS with interpretations - if it makes sense contextually, map it to the closest match
+3. If you can reasonably interpret the answer as matching one of the available values:
+   - Set isOffTopic = false
+   - Set offTopicConfidence = 0.1 or lower
+   - Set interpretation to the matched value
+   - Set confidence based on how clear the match is (0.7+ for obvious matches, 0.5-0.7 for reasonable interpretations)
+   - Only provide a message if confidence is low and you need clarification
+4. If you truly cannot interpret the answer as matching any available value:
+   - Set isOffTopic = true
+   - Set offTopicConfidence = 0.9 or higher
+   - Set confidence = 0.3 or lower
+   - Use the FIRST available value as interpretation (placeholder, will be ignored)
+   - Provide a helpful message listing available options
+
+CRITICAL PRINCIPLE: Use your natural language understanding FIRST. Only mark as off-topic if the answer genuinely cannot be understood in the context of the question category. Be generous with interpretations that make sense contextually.
+
+Guidelines:
+- Use friendly, supportive tone in messages
+- When marking as off-topic because the answer isn't in the database, explain it's not available and list some options
+- When off-topic, the interpretation value will be ignored, so use any enum value as placeholder`,
+      },
+    ];
+  },
+  schema: getAnswerAnalysisSchema,
+  fixtures: [
+    {
+      name: "dish for cuisine",
+      vars: { question: "What are you craving?", userAnswer: "burgers", questionType: "cuisine" },
+      expected: { interpretation: "Burgers", isOffTopic: false },
+    },
+    {
+      name: "cuisine for area",
+      vars: { question: "Which area?", userAnswer: "italian", questionType: "area" },
+      expected: { isOffTopic: true },
+    },
+  ],
+};
+
+// Slot values limited to the restaurant list
+function getSlotExtractionSchema(): Record<string, unknown> {
+  const knownAreas = getAvailableAreas();
+  const knownCuisines = getAvailableCuisines();
+
+  return {
+    type: "object",
+    properties: {
+      area: {
+        type: "string",
+        nullable: true,
+        description: `The area/location from: ${knownAreas.join(", ")}. Extract the most specific match. For example, "dubai marina" should map to "Dubai Marina" not just "Dubai". Return null if no area is mentioned.`,
+        enum: knownAreas.length > 0 ? knownAreas : undefined,
+      },
+      mealTime: {
+        type: "string",
+        nullable: true,
+        enum: ["breakfast", "lunch", "dinner", "coffee", "drinks", "late-night"],
+        description: "The meal time. Interpret time expressions contextually (e.g., '8pm', 'evening' -> 'dinner', 'noon' -> 'lunch'). Return null if not mentioned.",
+      },
+      partySize: {
+        type: "number",
+        nullable: true,
+        description: "Number of people (1-20). Extract from phrases like 'for three people', 'for 3', 'party of 4', etc. Return null if not mentioned.",
+        minimum: 1,
+        maximum: 20,
+      },
+      budget: {
+        type: "string",
+        nullable: true,
+        enum: ["cheap", "mid", "high"],
+        description: "Budget level. ONLY extract if budget is EXPLICITLY mentioned. Interpret: 'high budget', 'expensive', 'upscale', 'premium' -> 'high'; 'low budget', 'cheap', 'affordable' -> 'cheap'; 'mid', 'medium', 'moderate' -> 'mid'. Return null if budget is NOT explicitly mentioned in the message.",
+      },
+      cravingCuisines: {
+        type: "array",
+        items: {
+          type: "string",
+          enum: knownCuisines.length > 0 ? knownCuisines : undefined,
+        },
+        description: `Array of cuisine types from: ${knownCuisines.join(", ")}. Extract from mentions like 'italian restaurant', 'i want sushi', 'chinese food', etc. Return empty array if not mentioned.`,
+      },
+      vibe: {
+        type: "string",
+        nullable: true,
+        enum: ["romantic", "lively", "quiet", "outdoor", "family", "business"],
+        description: "Atmosphere/vibe. ONLY extract if vibe/atmosphere is EXPLICITLY mentioned. Interpret: 'romantic', 'intimate' -> 'romantic'; 'lively', 'casual', 'fun' -> 'lively'; 'quiet', 'peaceful' -> 'quiet'; etc. Return null if vibe is NOT explicitly mentioned in the message.",
+      },
+      dietary: {
+        type: "array",
+        items: {
+          type: "string",
+        },
+        description: "Dietary requirements like 'vegetarian', 'vegan', 'gluten-free', 'halal', etc. Return empty array if not mentioned.",
+      },
+    },
+    required: ["area", "mealTime", "partySize", "budget", "cravingCuisines", "vibe", "dietary"],
+    additionalProperties: false,
+  };
+}
+
+// Question-specific guidance
+function getSlotExtractionGuidance({ question, questionType }: SlotExtractionVars): string {
+  const knownAreas = getAvailableAreas();
+  const knownCuisines = getAvailableCuisines();
+  if (question && questionType) {
+    return `\n\nIMPORTANT CONTEXT: The user is answering this specific question:
+Question: "${question}"
+Question Type: ${questionType}
+
+Focus on extracting the answer to this question, but also extract any other restaurant-related information the user might provide.
+
+${questionType === "area" ? `The user is being asked for a LOCATION/AREA. Extract the most specific area match from: ${knownAreas.join(", ")}. For example, "dubai marina" should map to "Dubai Marina" not just "Dubai".` : ""}
+${questionType === "budget" ? `The user is being asked for a BUDGET LEVEL. Interpret phrases like "high budget", "expensive", "upscale", "premium" -> "high"; "cheap", "affordable", "low budget" -> "cheap"; "mid", "medium", "moderate" -> "mid".` : ""}
+${questionType === "mealTime" ? `The user is being asked for a MEAL TIME. Interpret time expressions contextually (e.g., "8pm", "evening" -> "dinner"; "noon", "midday", "lunchtime" -> "lunch"; "morning", "breakfast time" -> "breakfast").` : ""}
+${questionType === "cuisine" ? `The user is being asked for a CUISINE TYPE. Interpret food names contextually (e.g., "burgers" -> "American", "pizza" -> "Italian", "sushi" -> "Japanese"). Available cuisines: ${knownCuisines.join(", ")}.` : ""}
+${questionType === "vibe" ? `The user is being asked for a VIBE/ATMOSPHERE. Interpret descriptions contextually (e.g., "romantic", "intimate" -> "romantic"; "lively", "casual", "fun" -> "lively"; "quiet", "peaceful" -> "quiet").` : ""}
+${questionType === "partySize" ? `The user is being asked for NUMBER OF PEOPLE. Extract from phrases like "for three people", "party of 4", "just me", "two of us", etc.` : ""}
+${questionType === "dietary" ? `The user is being asked for DIETARY REQUIREMENTS. Extract terms like "vegetarian", "vegan", "gluten-free", "halal", etc.` : ""}`;
+  }
+  return "";
+}
+
+/**
+ * Extract slots from a free-text message (/api/extract-slots)
+ */
+const slotExtractionV1: PromptDefinition<SlotExtractionVars> = {
+  id: "slot_extraction",
+  version: 1,
+  description: "Slots explicitly mentioned in a message",
+  dateRelative: false,
+  temperature: 0.3,
+  messages: (vars) => {
+    const { userMessage, currentSlots } = vars;
+    const knownAreas = getAvailableAreas();
+    const knownCuisines = getAvailableCuisines();
+    const questionGuidance = getSlotExtractionGuidance(vars);
+    return [
+      {
+        role: "system",
+        content: `You are a helpful restaurant assistant extracting information from user messages.
+
+Current known information: ${JSON.stringify(currentSlots, null, 2)}
+Available areas: ${knownAreas.join(", ")}
+Available cuisines: ${knownCuisines.join(", ")}${questionGuidance}
+
+Your task:
+1. Extract ONLY restaurant-related information that is EXPLICITLY mentioned in the user's message
+2. Use natural language understanding to interpret what the user means, but ONLY if they are clearly providing information
+3. Map to the exact values from the available lists
+4. For areas: Use the MOST SPECIFIC match (e.g., "dubai marina" -> "Dubai Marina", not just "Dubai")
+5. For budgets: Interpret phrases like "high budget", "expensive", "upscale" -> "high"; "cheap", "affordable", "low budget" -> "cheap". ONLY extract if budget is explicitly mentioned.
+6. For meal times: Interpret times and phrases (e.g., "8pm", "evening" -> "dinner"; "noon", "lunchtime" -> "lunch"). ONLY extract if time/meal is explicitly mentioned.
+7. CRITICAL: Do NOT infer or assume values. Return null/empty for ALL fields if the message contains only greetings (like "hello", "hi", "hey"), casual responses, or does not contain explicit restaurant-related information.
+8. Do NOT overwrite existing values in currentSlots unless the user explicitly mentions changing them
+9. Examples of messages that should return ALL null/empty values: "hello", "hi", "hey", "ok", "sure", "thanks", "cool"
+
+Be precise and use the exact enum values from the schema. Only extract what is explicitly stated.`,
+      },
+      {
+        role: "user",
+        content: userMessage,
+      },
+    ];
+  },
+  schema: getSlotExtractionSchema,
+  fixtures: [
+    {
+      name: "several slots",
+      vars: { userMessage: "dinner for 4 in dubai marina", currentSlots: {} },
+      expected: { area: "Dubai Marina", mealTime: "dinner", partySize: 4 },
+    },
+  ],
+};
+
+const DATE_PARSING_SCHEMA = {
+  type: "object",
+  properties: {
+    date: {
+      type: "string",
+      description: "The parsed date in YYYY-MM-DD format, or null if the input cannot be interpreted as a date",
+      pattern: "^\\d{4}-\\d{2}-\\d{2}$|^null$",
+    },
+    confidence: {
+      type: "number",
+      minimum: 0,
+      maximum: 1,
+      description: "Confidence that the parsed date is correct (0-1)",
+    },
+  },
+  required: ["date", "confidence"],
+  additionalProperties: false,
+};
+
+/**
+ * Parse a written date to YYYY-MM-DD (/api/parse-date)
+ */
+const dateParsingV1: PromptDefinition<DateParsingVars> = {
+  id: "date_parsing",
+  version: 1,
+  description: "A written date as YYYY-MM-DD",
+  dateRelative: true,
+  temperature: 0.2, // Low temperature for consistent date parsing
+  messages: ({ dateString }, currentDate) => [
+    {
+      role: "system",
+      content: `You are a helpful assistant that parses human-written date expressions into YYYY-MM-DD format.
+
+User Input: "${dateString}"
+
+Your task:
+1. Interpret the date expression using natural language understanding
+2. Convert it to YYYY-MM-DD format (use the current date as reference: ${currentDate})
+3. Examples:
+   - "tomorrow" -> tomorrow's date in YYYY-MM-DD
+   - "next monday" -> next Monday's date in YYYY-MM-DD
+   - "friday" -> next Friday's date in YYYY-MM-DD (if today is Friday, that's today; if it's Saturday, it's the following Friday)
+   - "in 3 days" -> date 3 days from today
+   - "december 25" -> December 25 of the current year (or next year if it has passed)
+   - "2024-12-25" -> return as-is if already in YYYY-MM-DD format
+   - "january 15th" -> January 15 of the current year (or next year if it has passed)
+   - "next week" -> 7 days from today
+   - "this friday" -> this week's Friday (or next Friday if today is after Friday)
+4. If the input cannot be interpreted as a date, return date: "null" and confidence: 0.3 or lower
+5. Set confidence based on how clear the interpretation is (0.9+ for obvious dates like "tomorrow", 0.7-0.9 for ambiguous ones like "next monday")
+
+Important: Always return dates in YYYY-MM-DD format. Use the current date as a reference point.`,
+    },
+  ],
+  schema: () => DATE_PARSING_SCHEMA,
+  fixtures: [
+    { name: "already ISO", vars: { dateString: "2024-12-25" }, expected: { date: "2024-12-25" } },
+    { name: "not a date", vars: { dateString: "whenever" }, expected: { date: "null" } },
+  ],
+};
+
+export const PROMPTS: PromptDefinition[] = [
+  classifyExtractV1,
+  classifyExtractV2,
+  validateSlotV1,
+  normalizeDbV1,
+  understandTurnV1,
+  understandTurnV2,
+  answerAnalysisV1,
+  slotExtractionV1,
+  dateParsingV1,
+];
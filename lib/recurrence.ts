@@ -0,0 +1,190 @@
+import type { RecurrenceRule } from "@/types";
+import { getVenueToday } from "./availability";
+
+/**
+ * Recurring bookings: parse repeat patterns from chat and expand them into dates
+ * Supported: weekly ("every Friday"), biweekly ("every other Friday") and
+ * monthly on the nth weekday ("first Friday of every month")
+ */
+
+// Occurrences booked when the user doesn't say how many
+const DEFAULT_OCCURRENCES = 4;
+export const MAX_OCCURRENCES = 12;
+
+const WEEKDAYS: RecurrenceRule["byDay"][] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Full or short day names, singular or plural; the captured name is matched on its first three letters
+const WEEKDAY_PATTERN =
+  "(sun(?:day)?|mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:rs|rsday)?|fri(?:day)?|sat(?:urday)?)s?\\b";
+
+const ORDINALS: Record<string, number> = {
+  first: 1,
+  "1st": 1,
+  second: 2,
+  "2nd": 2,
+  third: 3,
+  "3rd": 3,
+  fourth: 4,
+  "4th": 4,
+  last: -1,
+};
+const ORDINAL_PATTERN = "(first|1st|second|2nd|third|3rd|fourth|4th|last)";
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+};
+const COUNT_PATTERN = new RegExp(
+  `(?:for\\s+)?\\b(\\d+|${Object.keys(NUMBER_WORDS).join("|")})\\s+(weeks?|months?|times|occurrences)`
+);
+
+// "for 8 weeks" of a monthly rule is about two months
+const WEEKS_PER_MONTH = 4;
+
+function toByDay(name: string): RecurrenceRule["byDay"] {
+  const index = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"].indexOf(name.slice(0, 3));
+  return WEEKDAYS[index];
+}
+
+/**
+ * Read "for 6 weeks" / "for three months" / "5 times" into an occurrence count
+ */
+function parseCount(lower: string, freq: RecurrenceRule["freq"], interval: number): number {
+  const match = lower.match(COUNT_PATTERN);
+  if (!match) return DEFAULT_OCCURRENCES;
+
+  const amount = NUMBER_WORDS[match[1]] ?? parseInt(match[1], 10);
+  const unit = match[2];
+  let count = amount;
+  if (unit.startsWith("week") && freq === "WEEKLY") count = Math.ceil(amount / interval);
+  if (unit.startsWith("week") && freq === "MONTHLY") count = Math.round(amount / WEEKS_PER_MONTH);
+  if (unit.startsWith("month") && freq === "WEEKLY") count = Math.ceil((amount * WEEKS_PER_MONTH) / interval);
+  return Math.max(1, Math.min(MAX_OCCURRENCES, count));
+}
+
+/**
+ * Find a repeat pattern in a chat message, or null if it isn't a recurring request
+ */
+export function parseRecurrence(text: string): RecurrenceRule | null {
+  const lower = text.toLowerCase();
+
+  // Monthly on the nth weekday
+  const monthly =
+    lower.match(new RegExp(`${ORDINAL_PATTERN}\\s+${WEEKDAY_PATTERN}\\s+(?:of\\s+)?(?:every|each|the)\\s+month`)) ||
+    lower.match(new RegExp(`(?:every|each)\\s+month\\s+on\\s+the\\s+${ORDINAL_PATTERN}\\s+${WEEKDAY_PATTERN}`)) ||
+    lower.match(new RegExp(`monthly\\s+on\\s+the\\s+${ORDINAL_PATTERN}\\s+${WEEKDAY_PATTERN}`));
+  if (monthly) {
+    return {
+      freq: "MONTHLY",
+      interval: 1,
+      byDay: toByDay(monthly[2]),
+      bySetPos: ORDINALS[monthly[1]],
+      count: parseCount(lower, "MONTHLY", 1),
+    };
+  }
+
+  // Every other week
+  const biweekly =
+    lower.match(new RegExp(`every\\s+(?:other|second|2nd)\\s+${WEEKDAY_PATTERN}`)) ||
+    lower.match(new RegExp(`(?:biweekly|fortnightly|every\\s+(?:two|2)\\s+weeks)\\s+(?:on\\s+)?${WEEKDAY_PATTERN}`)) ||
+    lower.match(new RegExp(`${WEEKDAY_PATTERN}\\s+(?:biweekly|fortnightly|every\\s+(?:two|2)\\s+weeks)`));
+  if (biweekly) {
+    return { freq: "WEEKLY", interval: 2, byDay: toByDay(biweekly[1]), count: parseCount(lower, "WEEKLY", 2) };
+  }
+
+  // Every week
+  const weekly =
+    lower.match(new RegExp(`(?:every|each)\\s+${WEEKDAY_PATTERN}`)) ||
+    lower.match(new RegExp(`weekly\\s+on\\s+${WEEKDAY_PATTERN}`)) ||
+    lower.match(/\bon\s+(sun|mon|tues|wednes|thurs|fri|satur)days\b/);
+  if (weekly) {
+    return {
+      freq: "WEEKLY",
+      interval: 1,
+      byDay: toByDay(weekly[1]),
+      count: parseCount(lower, "WEEKLY", 1),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Human wording, e.g. "every Friday", "every other Friday", "the first Friday of every month"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const day = WEEKDAY_NAMES[WEEKDAYS.indexOf(rule.byDay)];
+  if (rule.freq === "MONTHLY") {
+    const ordinal = rule.bySetPos === -1 ? "last" : ["first", "second", "third", "fourth", "fifth"][(rule.bySetPos || 1) - 1];
+    return `the ${ordinal} ${day} of every month`;
+  }
+  return rule.interval === 2 ? `every other ${day}` : `every ${day}`;
+}
+
+function parseIsoDate(date: string): Date | null {
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? new Date(Date.UTC(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]))) : null;
+}
+
+function formatIsoDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * nth (or last) given weekday of a month, in UTC
+ */
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, position: number): Date {
+  if (position === -1) {
+    const last = new Date(Date.UTC(year, month + 1, 0));
+    last.setUTCDate(last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7));
+    return last;
+  }
+  const first = new Date(Date.UTC(year, month, 1));
+  first.setUTCDate(1 + ((weekday - first.getUTCDay() + 7) % 7) + (position - 1) * 7);
+  return first;
+}
+
+/**
+ * Dates (yyyy-mm-dd) of every occurrence, starting on or after startDate
+ * startDate that isn't yyyy-mm-dd counts from today
+ */
+export function expandRecurrence(rule: RecurrenceRule, startDate: string): string[] {
+  const start = parseIsoDate(startDate) || parseIsoDate(getVenueToday())!;
+  const weekday = WEEKDAYS.indexOf(rule.byDay);
+  const dates: string[] = [];
+
+  if (rule.freq === "WEEKLY") {
+    const current = new Date(start);
+    current.setUTCDate(current.getUTCDate() + ((weekday - current.getUTCDay() + 7) % 7));
+    while (dates.length < rule.count) {
+      dates.push(formatIsoDate(current));
+      current.setUTCDate(current.getUTCDate() + 7 * rule.interval);
+    }
+    return dates;
+  }
+
+  let year = start.getUTCFullYear();
+  let month = start.getUTCMonth();
+  while (dates.length < rule.count) {
+    const occurrence = nthWeekdayOfMonth(year, month, weekday, rule.bySetPos || 1);
+    // Months without a fifth such weekday are skipped
+    if (occurrence >= start && occurrence.getUTCMonth() === month) dates.push(formatIsoDate(occurrence));
+    month += rule.interval;
+    if (month > 11) {
+      year += Math.floor(month / 12);
+      month %= 12;
+    }
+  }
+  return dates;
+}
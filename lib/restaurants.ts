@@ -1,11 +1,12 @@
-import type { Restaurant } from "@/types";
+import type { Restaurant, Wildcard } from "@/types";
+import { isWildcard } from "./wildcard";
 
 interface UserPreferences {
-  cuisines?: string[];
+  cuisines?: string[] | Wildcard;
   vibe?: string[];
   dietary?: string[];
-  budget?: "low" | "mid" | "high";
-  location?: string;
+  budget?: "low" | "mid" | "high" | Wildcard;
+  location?: string | Wildcard;
 }
 
 interface Candidate {
@@ -26,6 +27,7 @@ export const RESTAURANTS: Restaurant[] = [
     rating: 4.5,
     highlights: ["Afternoon tea", "Fountain views", "Arabic breakfast"],
     bookingAvailable: true,
+    maxPartySize: 6,
   },
   {
     id: "66054abe14c1398684ac4b1a",
@@ -39,6 +41,7 @@ export const RESTAURANTS: Restaurant[] = [
     rating: 4.3,
     highlights: ["Traditional Emirati cuisine", "Heritage setting"],
     bookingAvailable: true,
+    maxPartySize: 20,
   },
   {
     id: "67879ed5ac31fa8b4dfeabed",
@@ -1866,10 +1869,11 @@ export function findCandidates(preferences: UserPreferences): Candidate[] {
   const candidates: Candidate[] = RESTAURANTS.map((restaurant) => {
     let score = 0;
 
-    // Cuisine matching (+3 per match, but only if there's an actual match)
-    if (preferences.cuisines && preferences.cuisines.length > 0) {
+    // Cuisine matching (+3 per match, but only if there's an actual match); "any" doesn't filter
+    const preferredCuisines = isWildcard(preferences.cuisines) ? [] : preferences.cuisines || [];
+    if (preferredCuisines.length > 0) {
       const cuisineMatches = restaurant.cuisines.filter((c) =>
-        preferences.cuisines!.some((pref) => {
+        preferredCuisines.some((pref) => {
           const cLower = c.toLowerCase();
           const prefLower = pref.toLowerCase();
           // Exact match or substring match (but be more strict)
@@ -1910,14 +1914,14 @@ export function findCandidates(preferences: UserPreferences): Candidate[] {
     }
 
     // Budget matching (+3 for exact match)
-    if (preferences.budget) {
+    if (preferences.budget && !isWildcard(preferences.budget)) {
       if (restaurant.price === preferences.budget) {
         score += 3;
       }
     }
 
     // Location matching (+2 for city, +3 for area)
-    if (preferences.location) {
+    if (preferences.location && !isWildcard(preferences.location)) {
       const locationLower = preferences.location.toLowerCase();
       if (restaurant.city.toLowerCase().includes(locationLower) ||
           locationLower.includes(restaurant.city.toLowerCase())) {
@@ -0,0 +1,90 @@
+import type { Account } from "@/types";
+import { classifyAndExtract } from "./gptPrompts";
+import { validateWithAliases, normalizeWithAliases, understandWithAliases, saveAlias } from "./aliasStore";
+import {
+  listBookings,
+  createBooking,
+  createBookingSeries,
+  cancelBooking,
+  cancelBookingSeries,
+  modifyBooking,
+} from "./bookingStore";
+import { checkAvailability, canJoinWaitlist, findNearbySlots, getRestaurantById } from "./availability";
+import { createWalkIn } from "./walkInStore";
+import type { DialogueDeps } from "./dialoguePipeline";
+
+/**
+ * Turn dependencies for the server (server-side only): GPT prompts and the file stores,
+ * shaped like the browser's API wrappers so reduceTurn can't tell them apart
+ * NLU_MODE=sequential makes the separate classify, validate and normalize calls instead of the combined one
+ */
+export function createServerDialogueDeps(account: Account | null): DialogueDeps {
+  return {
+    account,
+    classifyAndExtract,
+    validateSlot: validateWithAliases,
+    normalizeToDB: normalizeWithAliases,
+    understandTurn: process.env.NLU_MODE === "sequential" ? undefined : understandWithAliases,
+
+    async checkAvailability(restaurantId, date, time, partySize) {
+      const restaurant = getRestaurantById(restaurantId);
+      if (!restaurant) {
+        throw new Error("Restaurant not found");
+      }
+
+      const bookings = await listBookings();
+      const availability = checkAvailability(restaurant, date, time, partySize, bookings);
+      return {
+        status: availability.status,
+        seatsLeft: availability.seatsLeft,
+        nearbySlots:
+          availability.status === "available" ? [] : findNearbySlots(restaurant, date, time, partySize, bookings),
+        waitlistOpen: canJoinWaitlist(availability, partySize),
+      };
+    },
+
+    createBooking,
+    createBookingSeries,
+    listBookings,
+
+    async cancelBooking(id) {
+      const booking = await cancelBooking(id);
+      if (!booking) {
+        throw new Error("Booking not found");
+      }
+      return booking;
+    },
+
+    async cancelBookingSeries(seriesId) {
+      const bookings = await cancelBookingSeries(seriesId);
+      if (!bookings) {
+        throw new Error("Series not found");
+      }
+      return bookings;
+    },
+
+    async modifyBooking(id, changes) {
+      const write = await modifyBooking(id, changes);
+      if (!write.ok && write.error === "not_found") {
+        throw new Error("Booking not found");
+      }
+      return write;
+    },
+
+    async saveAlias(slot, input, value) {
+      const alias = await saveAlias(slot, input, value);
+      if (!alias) {
+        throw new Error(`Unknown ${slot}`);
+      }
+      return alias;
+    },
+
+    async createWalkIn(input) {
+      const result = await createWalkIn(input);
+      if (!result.ok) {
+        throw new Error(result.error === "bookable" ? "Restaurant takes bookings" : "Restaurant not found");
+      }
+      return { intent: result.intent, withheld: result.withheld };
+    },
+  };
+}
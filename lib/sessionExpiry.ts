@@ -0,0 +1,82 @@
+import type { Account, ActiveRequest, Booking, DialogueState } from "@/types";
+import { formatBookingSummary, isUpcoming } from "./bookingManagement";
+import { getAccountDisplay } from "./storage";
+import { getVenueToday } from "./availability";
+
+/**
+ * Session expiry: a conversation left alone for a while isn't picked up mid-question
+ * - After SESSION_TIMEOUT_MS without messages, a half-finished request is summarized
+ *   and the user chooses to resume it or start over
+ * - Dates that have passed are cleared from the request (and queued ones) and asked again
+ * - The first reply of a new session welcomes the user back with their last booking
+ */
+
+export const SESSION_TIMEOUT_MS = 6 * 60 * 60 * 1000;
+
+const RESUME_PATTERN = /^(?:resume|continue|carry on|pick up|yes|yeah|yep|sure|ok(?:ay)?)\b/;
+
+const RESTART_PATTERN = /^(?:start over|start again|restart|start fresh|new request|something new|no|nope)\b/;
+
+/**
+ * Time of the last message, or null for a conversation that hasn't started
+ */
+export function getLastActivity(state: DialogueState): number | null {
+  const last = state.history[state.history.length - 1];
+  return last ? last.ts : null;
+}
+
+/**
+ * Whether this message starts a new session: the first one ever, or the first after a long pause
+ */
+export function isNewSession(state: DialogueState, now = Date.now()): boolean {
+  const lastActivity = getLastActivity(state);
+  return lastActivity === null || now - lastActivity > SESSION_TIMEOUT_MS;
+}
+
+/**
+ * Whether a request was partly answered, so a returning user might want to pick it up
+ */
+export function hasRequestInProgress(state: DialogueState): boolean {
+  const { request } = state;
+  return (
+    !!state.queue ||
+    !!(request.area || request.cuisine || request.budget || request.partySize || request.date || request.time)
+  );
+}
+
+/**
+ * Clear a date (and its recurrence) that is before today; returns the cleared date, or null if it was kept
+ */
+export function clearPastDate(request: ActiveRequest, today = getVenueToday()): string | null {
+  const { date } = request;
+  if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date) || date >= today) return null;
+  request.date = null;
+  request.recurrence = null;
+  return date;
+}
+
+export function isResumeAnswer(lower: string): boolean {
+  return RESUME_PATTERN.test(lower);
+}
+
+export function isRestartAnswer(lower: string): boolean {
+  return RESTART_PATTERN.test(lower);
+}
+
+/**
+ * "Welcome back, Danny! You're booked at ..." with the most recently made booking that wasn't cancelled
+ * Null for someone with no bookings who hasn't chatted before
+ */
+export function getWelcomeText(account: Account | null, bookings: Booking[], returning: boolean): string | null {
+  const name = account ? getAccountDisplay(account) : null;
+  const greeting = name ? `Welcome back, ${name}!` : "Welcome back!";
+
+  const last = bookings
+    .filter((booking) => booking.status !== "cancelled")
+    .sort((a, b) => b.ts - a.ts)[0];
+  if (!last) return returning ? greeting : null;
+
+  return isUpcoming(last)
+    ? `${greeting} You're booked at ${formatBookingSummary(last)}.`
+    : `${greeting} Last time you booked ${formatBookingSummary(last)}.`;
+}
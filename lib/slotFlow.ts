@@ -0,0 +1,112 @@
+import type { ActiveRequest, PendingSlot } from "@/types";
+import { getAvailableAreas } from "./parser";
+import { getAvailableCuisines } from "./restaurants";
+import slotFlowConfig from "./slotFlow.json";
+
+/**
+ * Slot flow: which request slots the chat asks for, in what order and with what wording
+ * Defined in lib/slotFlow.json so it can change without touching the engine. Per slot:
+ * - required: asked until filled; optional slots are kept when mentioned but never asked
+ * - validation: how a reply to the question is checked (validateSlot's slot kinds)
+ * - choices: where supported values come from ("areas" or "cuisines"), or null
+ * - questions: the first is asked first, later ones when the same slot is asked again;
+ *   "{examples}" becomes the first few supported choices
+ */
+
+export type SlotName = Exclude<PendingSlot, null>;
+export type SlotValidation = "area" | "cuisine" | "budget" | "date" | "time" | "partySize";
+export type SlotChoicesSource = "areas" | "cuisines";
+
+export interface SlotDefinition {
+  name: SlotName;
+  required: boolean;
+  validation: SlotValidation;
+  choices: SlotChoicesSource | null;
+  questions: string[];
+}
+
+const SLOT_NAMES: SlotName[] = ["area", "cuisine", "budget", "date", "time", "partySize"];
+const VALIDATIONS: SlotValidation[] = ["area", "cuisine", "budget", "date", "time", "partySize"];
+const CHOICE_SOURCES: SlotChoicesSource[] = ["areas", "cuisines"];
+
+// A booking can't be made without these, so the flow must ask for them
+const BOOKING_SLOTS: SlotName[] = ["date", "time", "partySize"];
+
+const EXAMPLE_COUNT = 3;
+
+/**
+ * Check the flow definition; a broken file fails loudly at startup rather than mid-conversation
+ */
+function parseSlotFlow(config: unknown): SlotDefinition[] {
+  const slots = (config as { slots?: unknown })?.slots;
+  if (!Array.isArray(slots)) {
+    throw new Error("Invalid slot flow: missing slots");
+  }
+
+  const definitions = slots.map((slot: Partial<SlotDefinition>, index) => {
+    if (!SLOT_NAMES.includes(slot.name as SlotName)) {
+      throw new Error(`Invalid slot flow: unknown slot at ${index}`);
+    }
+    // validation and choices may be left out: check replies as the slot itself, with no fixed choices
+    const validation = slot.validation ?? slot.name;
+    if (!VALIDATIONS.includes(validation as SlotValidation)) {
+      throw new Error(`Invalid slot flow: unknown validation for ${slot.name}`);
+    }
+    if (slot.choices != null && !CHOICE_SOURCES.includes(slot.choices as SlotChoicesSource)) {
+      throw new Error(`Invalid slot flow: unknown choices for ${slot.name}`);
+    }
+    if (!Array.isArray(slot.questions) || slot.questions.length === 0) {
+      throw new Error(`Invalid slot flow: ${slot.name} needs at least one question`);
+    }
+    return {
+      name: slot.name as SlotName,
+      required: slot.required !== false,
+      validation: validation as SlotValidation,
+      choices: slot.choices ?? null,
+      questions: slot.questions,
+    };
+  });
+
+  for (const name of BOOKING_SLOTS) {
+    if (!definitions.some((d) => d.name === name && d.required)) {
+      throw new Error(`Invalid slot flow: ${name} must be required, bookings need it`);
+    }
+  }
+  return definitions;
+}
+
+export const SLOT_FLOW: SlotDefinition[] = parseSlotFlow(slotFlowConfig);
+
+export function getSlotDefinition(slot: PendingSlot): SlotDefinition | undefined {
+  return SLOT_FLOW.find((d) => d.name === slot);
+}
+
+/**
+ * Supported values for a slot's replies, if the flow gives it a source
+ */
+export function getSupportedChoices(slot: PendingSlot): string[] | undefined {
+  const source = getSlotDefinition(slot)?.choices;
+  if (source === "areas") return getAvailableAreas();
+  if (source === "cuisines") return getAvailableCuisines();
+  return undefined;
+}
+
+/**
+ * First required slot still empty, in flow order
+ */
+export function getNextMissingSlot(request: ActiveRequest): PendingSlot {
+  const missing = SLOT_FLOW.find((d) => d.required && !request[d.name]);
+  return missing ? missing.name : null;
+}
+
+/**
+ * Question for a slot; attempt 1+ picks the next variant when the same slot is asked again
+ */
+export function getSlotQuestion(slot: PendingSlot, attempt = 0): string {
+  const definition = getSlotDefinition(slot);
+  if (!definition) return "";
+
+  const question = definition.questions[Math.min(attempt, definition.questions.length - 1)];
+  const examples = (getSupportedChoices(slot) || []).slice(0, EXAMPLE_COUNT).join(", ");
+  return question.replace("{examples}", examples);
+}
@@ -1,12 +1,30 @@
-import type { Profile, Booking, Message, Account, AccountDisplay, ActiveRequest, RequestMode, PendingSlot } from "@/types";
+import type {
+  Profile,
+  Message,
+  Account,
+  AccountDisplay,
+  ActiveRequest,
+  RequestMode,
+  PendingSlot,
+  BookingManagementState,
+  ConversationFlow,
+  DialogueSnapshot,
+  RequestQueue,
+  Clarification,
+} from "@/types";
+import { DEFAULT_FLOW, isConversationFlow } from "./dialoguePipeline";
 
 const PROFILE_KEY = "rb_profile_v1";
 const HISTORY_KEY = "rb_history_v1";
-const BOOKINGS_KEY = "rb_bookings_v1";
 const ACTIVE_REQUEST_KEY = "rb_active_request_v1";
 const MODE_KEY = "rb_mode_v1";
 const PENDING_SLOT_KEY = "rb_pending_slot_v1";
 const SELECTED_RESTAURANT_KEY = "rb_selected_restaurant_v1";
+const BOOKING_MANAGEMENT_KEY = "rb_booking_management_v1";
+const FLOW_KEY = "rb_flow_v1";
+const UNDO_KEY = "rb_undo_v1";
+const REQUEST_QUEUE_KEY = "rb_request_queue_v1";
+const CLARIFICATION_KEY = "rb_clarification_v1";
 
 /**
  * Get display name for account (for compatibility)
@@ -83,39 +101,6 @@ export function saveHistory(messages: Message[]): void {
   localStorage.setItem(HISTORY_KEY, JSON.stringify(messages));
 }
 
-/**
- * Get bookings from localStorage
- */
-export function getBookings(): Booking[] {
-  if (typeof window === "undefined") return [];
-
-  const stored = localStorage.getItem(BOOKINGS_KEY);
-  if (!stored) return [];
-
-  try {
-    return JSON.parse(stored) as Booking[];
-  } catch {
-    return [];
-  }
-}
-
-/**
- * Save bookings to localStorage
- */
-export function saveBookings(bookings: Booking[]): void {
-  if (typeof window === "undefined") return;
-  localStorage.setItem(BOOKINGS_KEY, JSON.stringify(bookings));
-}
-
-/**
- * Add a new booking
- */
-export function addBooking(booking: Booking): void {
-  const bookings = getBookings();
-  bookings.push(booking);
-  saveBookings(bookings);
-}
-
 /**
  * Get active request from localStorage
  */
@@ -225,3 +210,144 @@ export function saveSelectedRestaurantId(id: string | null): void {
     localStorage.setItem(SELECTED_RESTAURANT_KEY, id);
   }
 }
+
+/**
+ * Get the in-progress cancel/modify flow from localStorage
+ */
+export function getBookingManagement(): BookingManagementState | null {
+  if (typeof window === "undefined") return null;
+
+  const stored = localStorage.getItem(BOOKING_MANAGEMENT_KEY);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored) as BookingManagementState;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save the in-progress cancel/modify flow to localStorage
+ */
+export function saveBookingManagement(state: BookingManagementState | null): void {
+  if (typeof window === "undefined") return;
+  if (state === null) {
+    localStorage.removeItem(BOOKING_MANAGEMENT_KEY);
+  } else {
+    localStorage.setItem(BOOKING_MANAGEMENT_KEY, JSON.stringify(state));
+  }
+}
+
+/**
+ * Get the chat flow an account uses from localStorage
+ */
+export function getConversationFlow(account: Account): ConversationFlow {
+  if (typeof window === "undefined") return DEFAULT_FLOW;
+
+  const stored = localStorage.getItem(FLOW_KEY);
+  if (!stored) return DEFAULT_FLOW;
+
+  try {
+    const flows = JSON.parse(stored) as Partial<Record<Account, unknown>>;
+    const flow = flows[account];
+    return isConversationFlow(flow) ? flow : DEFAULT_FLOW;
+  } catch {
+    return DEFAULT_FLOW;
+  }
+}
+
+/**
+ * Save the chat flow for an account to localStorage
+ */
+export function saveConversationFlow(account: Account, flow: ConversationFlow): void {
+  if (typeof window === "undefined") return;
+
+  let flows: Partial<Record<Account, ConversationFlow>> = {};
+  try {
+    flows = JSON.parse(localStorage.getItem(FLOW_KEY) || "{}");
+  } catch {
+    // Corrupt value: start over
+  }
+  localStorage.setItem(FLOW_KEY, JSON.stringify({ ...flows, [account]: flow }));
+}
+
+/**
+ * Get the open "did you mean" question from localStorage
+ */
+export function getClarification(): Clarification | null {
+  if (typeof window === "undefined") return null;
+
+  const stored = localStorage.getItem(CLARIFICATION_KEY);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored) as Clarification;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save the open "did you mean" question to localStorage
+ */
+export function saveClarification(clarification: Clarification | null): void {
+  if (typeof window === "undefined") return;
+  if (clarification === null) {
+    localStorage.removeItem(CLARIFICATION_KEY);
+  } else {
+    localStorage.setItem(CLARIFICATION_KEY, JSON.stringify(clarification));
+  }
+}
+
+/**
+ * Get the requests still queued from a multi-request message from localStorage
+ */
+export function getRequestQueue(): RequestQueue | null {
+  if (typeof window === "undefined") return null;
+
+  const stored = localStorage.getItem(REQUEST_QUEUE_KEY);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored) as RequestQueue;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save the queued requests to localStorage
+ */
+export function saveRequestQueue(queue: RequestQueue | null): void {
+  if (typeof window === "undefined") return;
+  if (queue === null) {
+    localStorage.removeItem(REQUEST_QUEUE_KEY);
+  } else {
+    localStorage.setItem(REQUEST_QUEUE_KEY, JSON.stringify(queue));
+  }
+}
+
+/**
+ * Get the chat's undo snapshots from localStorage
+ */
+export function getUndoStack(): DialogueSnapshot[] {
+  if (typeof window === "undefined") return [];
+
+  const stored = localStorage.getItem(UNDO_KEY);
+  if (!stored) return [];
+
+  try {
+    return JSON.parse(stored) as DialogueSnapshot[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save the chat's undo snapshots to localStorage
+ */
+export function saveUndoStack(snapshots: DialogueSnapshot[]): void {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(UNDO_KEY, JSON.stringify(snapshots));
+}
@@ -0,0 +1,432 @@
+import type { LLMRequest, LLMTask } from "./openai";
+import type { PromptVars } from "./prompts";
+import { getAvailableAreas, parseUserMessage } from "./parser";
+import { getAvailableCuisines, getAvailableVibes, getAvailableDietary } from "./restaurants";
+import { parseTimeToMinutes, formatMinutes } from "./availability";
+import { similarity } from "./clarification";
+import { ANY, isWildcardAnswer, findWildcardSlots } from "./wildcard";
+
+/**
+ * Deterministic rule-based answers for the LLM tasks (the "stub" provider)
+ * Reads the task's structured input, never the prompt, and answers in the task's JSON shape
+ * Good enough to click through the app and run scripts offline; not a replacement for the model
+ */
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+};
+
+// Dishes that point at a cuisine, as in Prompt A's rules
+const DISH_CUISINES: Record<string, string> = {
+  tiramisu: "Italian",
+  pasta: "Italian",
+  pizza: "Italian",
+  sushi: "Japanese",
+  ramen: "Japanese",
+  tacos: "Mexican",
+  burrito: "Mexican",
+  shawarma: "Lebanese",
+  manakish: "Lebanese",
+  steak: "Steakhouse",
+  burger: "American",
+  burgers: "American",
+  curry: "Indian",
+};
+
+const BUDGET_LABELS = ["", "low", "medium", "high", "luxury"];
+
+// Small talk the assistant can't help with, unless the message is also about eating out
+const OFF_TOPIC_PATTERN = /\b(?:weather|temperature|news|joke|traffic|football|stocks?)\b/;
+const DINING_PATTERN = /\b(?:restaurant|table|book|booking|reservation|eat|food|dinner|lunch|breakfast|brunch)\b/;
+
+const MEAL_TIMES: Record<string, string[]> = {
+  breakfast: ["breakfast", "morning", "brunch"],
+  lunch: ["lunch", "noon", "midday"],
+  dinner: ["dinner", "evening", "tonight", "night"],
+  coffee: ["coffee", "cafe", "latte"],
+  drinks: ["drinks", "cocktail", "bar", "happy hour"],
+  "late-night": ["late night", "late-night", "midnight"],
+};
+
+function formatIsoDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 86400000);
+}
+
+/**
+ * "today", "tomorrow", "friday", "next monday", "in 3 days", "december 25", "2026-10-23" as yyyy-mm-dd
+ */
+export function parseDateText(text: string, now = new Date()): { value: string; confidence: number } | null {
+  const lower = text.toLowerCase();
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+  const iso = lower.match(/\b(\d{4}-\d{2}-\d{2})\b/);
+  if (iso) return { value: iso[1], confidence: 0.95 };
+
+  if (/\b(?:today|tonight)\b/.test(lower)) return { value: formatIsoDate(today), confidence: 0.95 };
+  if (/\bday after tomorrow\b/.test(lower)) return { value: formatIsoDate(addDays(today, 2)), confidence: 0.9 };
+  if (/\btomorrow\b/.test(lower)) return { value: formatIsoDate(addDays(today, 1)), confidence: 0.95 };
+
+  const inDays = lower.match(/\bin (\d+|[a-z]+) days?\b/);
+  if (inDays) {
+    const days = parseInt(inDays[1]) || NUMBER_WORDS[inDays[1]];
+    if (days) return { value: formatIsoDate(addDays(today, days)), confidence: 0.9 };
+  }
+  if (/\bnext week\b/.test(lower)) return { value: formatIsoDate(addDays(today, 7)), confidence: 0.7 };
+
+  const weekday = WEEKDAYS.findIndex((day) => new RegExp(`\\b${day}\\b`).test(lower));
+  if (weekday !== -1) {
+    let days = (weekday - today.getUTCDay() + 7) % 7;
+    if (/\bnext\b/.test(lower) && days === 0) days = 7;
+    return { value: formatIsoDate(addDays(today, days)), confidence: /\bnext\b/.test(lower) ? 0.8 : 0.9 };
+  }
+
+  // "december 25", "25 dec", "jan 15th"
+  const monthFirst = lower.match(/\b([a-z]{3})[a-z]*\.? (\d{1,2})(?:st|nd|rd|th)?\b/);
+  const dayFirst = lower.match(/\b(\d{1,2})(?:st|nd|rd|th)? (?:of )?([a-z]{3})[a-z]*\b/);
+  const monthDay =
+    monthFirst && MONTHS.includes(monthFirst[1])
+      ? { month: MONTHS.indexOf(monthFirst[1]), day: parseInt(monthFirst[2]) }
+      : dayFirst && MONTHS.includes(dayFirst[2])
+        ? { month: MONTHS.indexOf(dayFirst[2]), day: parseInt(dayFirst[1]) }
+        : null;
+  if (monthDay && monthDay.day >= 1 && monthDay.day <= 31) {
+    let date = new Date(Date.UTC(today.getUTCFullYear(), monthDay.month, monthDay.day));
+    if (date < today) date = new Date(Date.UTC(today.getUTCFullYear() + 1, monthDay.month, monthDay.day));
+    return { value: formatIsoDate(date), confidence: 0.85 };
+  }
+
+  return null;
+}
+
+/**
+ * "8pm", "at 8:30", "20:00", "noon" as HH:mm
+ */
+export function parseTimeText(text: string): { value: string; confidence: number } | null {
+  const lower = text.toLowerCase();
+  if (/\bnoon\b/.test(lower)) return { value: "12:00", confidence: 0.9 };
+  if (/\bmidnight\b/.test(lower)) return { value: "00:00", confidence: 0.9 };
+
+  const match =
+    lower.match(/\b(\d{1,2}(?:[:.]\d{2})?\s*(?:am|pm))\b/) ||
+    lower.match(/\b(\d{1,2}[:.]\d{2})\b/) ||
+    lower.match(/\bat (\d{1,2})\b(?!\s*(?:people|guests|persons|pax))/);
+  if (!match) return null;
+
+  const minutes = parseTimeToMinutes(match[1]);
+  return minutes === null ? null : { value: formatMinutes(minutes), confidence: 0.9 };
+}
+
+export function parsePartySize(text: string): number | null {
+  const lower = text.toLowerCase().trim();
+  if (/^\d{1,2}$/.test(lower)) return parseInt(lower);
+  if (NUMBER_WORDS[lower]) return NUMBER_WORDS[lower];
+  if (/\b(?:just me|only me|myself|solo)\b/.test(lower)) return 1;
+
+  const words = Object.keys(NUMBER_WORDS).join("|");
+  const match =
+    lower.match(new RegExp(`\\b(\\d{1,2}|${words}) (?:people|persons|guests|pax|adults|of us)\\b`)) ||
+    lower.match(new RegExp(`\\b(?:for|party of|table for|group of) (\\d{1,2}|${words})\\b(?!\\s*(?:am|pm|[:.]\\d))`));
+  if (!match) return null;
+  return parseInt(match[1]) || NUMBER_WORDS[match[1]] || null;
+}
+
+/**
+ * Budget 1-4 from words or price ranges, as in Prompt A's mapping
+ */
+export function parseBudgetRange(text: string): 1 | 2 | 3 | 4 | null {
+  const lower = text.toLowerCase().trim();
+  if (/^[1-4]$/.test(lower)) return parseInt(lower) as 1 | 2 | 3 | 4;
+  if (/\b(?:luxury|fine dining|400\+)/.test(lower)) return 4;
+  if (/\b(?:high|expensive|upscale|fancy|premium)\b|\b200\s*-\s*400\b/.test(lower)) return 3;
+  if (/\b(?:mid|medium|moderate)\b|\b100\s*-\s*200\b/.test(lower)) return 2;
+  if (/\b(?:low|cheap|budget|affordable)\b|\b50\s*-\s*100\b/.test(lower)) return 1;
+  return null;
+}
+
+/**
+ * Closest supported value: exact or contained names are sure, look-alikes less so
+ */
+function matchChoice(input: string, choices: string[]): { matched: string | null; confidence: number } {
+  const lower = input.toLowerCase().trim();
+  if (!lower) return { matched: null, confidence: 0 };
+
+  const exact = choices.find((choice) => choice.toLowerCase() === lower);
+  if (exact) return { matched: exact, confidence: 1 };
+
+  // Longest first, so "dubai marina" finds "Dubai Marina" rather than "Dubai"
+  const byLength = [...choices].sort((a, b) => b.length - a.length);
+  const contained = byLength.find((choice) => new RegExp(`\\b${escapeRegExp(choice.toLowerCase())}\\b`).test(lower));
+  if (contained) return { matched: contained, confidence: 0.9 };
+
+  const dish = Object.keys(DISH_CUISINES).find((word) => new RegExp(`\\b${word}\\b`).test(lower));
+  if (dish && choices.includes(DISH_CUISINES[dish])) return { matched: DISH_CUISINES[dish], confidence: 0.8 };
+
+  // A misspelt name inside a longer message ("itallian in downtwn"): word by word, only when very close
+  const words = lower.split(/[^a-z]+/).filter((word) => word.length >= 4);
+  const typo = choices
+    .flatMap((choice) => words.map((word) => ({ choice, score: similarity(word, choice.toLowerCase()) })))
+    .sort((a, b) => b.score - a.score)[0];
+  if (typo && typo.score >= 0.8) return { matched: typo.choice, confidence: 0.7 };
+
+  const scored = choices
+    .map((choice) => ({ choice, score: similarity(lower, choice) }))
+    .sort((a, b) => b.score - a.score)[0];
+  if (!scored || scored.score < 0.4) return { matched: null, confidence: 0.1 };
+  // Look-alikes ("wasel" for "Al Wasl") land in the clarification band unless very close
+  return { matched: scored.choice, confidence: scored.score >= 0.8 ? 0.7 : 0.5 };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// "in wasel for 2": an area we don't know, left for normalize_db to match
+function findAreaPhrase(lower: string): { value: string | null; confidence: number } {
+  const match = lower.match(/\b(?:in|at|near|around) ([a-z][a-z ]*?)(?= for\b| on\b| at\b| this\b| next\b| tomorrow\b| tonight\b|[,.!?]|$)/);
+  if (!match || /^(?:the )?(?:evening|morning|afternoon|night|\d)/.test(match[1])) return { value: null, confidence: 0 };
+  return { value: match[1].trim(), confidence: 0.6 };
+}
+
+function extractPreferences(text: string, now: Date) {
+  const lower = text.toLowerCase();
+  const wildcards = findWildcardSlots(text);
+  const area = wildcards.includes("area") ? null : matchChoice(text, getAvailableAreas());
+  const cuisine = wildcards.includes("cuisine") ? null : matchChoice(text, getAvailableCuisines());
+  const range = wildcards.includes("budget") ? null : parseBudgetRange(text);
+  const date = parseDateText(text, now);
+  const time = parseTimeText(text);
+
+  return {
+    area: area && area.confidence > 0.5 ? { value: area.matched, confidence: area.confidence } : findAreaPhrase(lower),
+    cuisine:
+      cuisine && cuisine.confidence > 0.5
+        ? { value: cuisine.matched, confidence: cuisine.confidence }
+        : { value: null, confidence: 0 },
+    budget: { label: range ? BUDGET_LABELS[range] : null, range },
+    partySize: parsePartySize(lower),
+    date: date ?? { value: null, confidence: 0 },
+    time: time ?? { value: null, confidence: 0 },
+    notes: null,
+  };
+}
+
+// withText (v2 prompts): each further request keeps its own words, e.g. "something for brunch Sunday"
+function classifyAndExtract(input: { userMessage: string }, now: Date, withText: boolean) {
+  const lower = input.userMessage.toLowerCase().trim();
+  const [first, ...others] = input.userMessage.split(/,?\s+and also\s+|;\s*also\s+/i);
+  const extracted = extractPreferences(first, now);
+
+  const hasSlots =
+    !!extracted.area.value ||
+    !!extracted.cuisine.value ||
+    !!extracted.budget.range ||
+    !!extracted.partySize ||
+    !!extracted.date.value ||
+    !!extracted.time.value;
+
+  let intent = "other";
+  if (/^(?:(?:hi|hello|hey|hiya|yo)(?: there)?|thanks|thank you|good (?:morning|evening|afternoon))[!. ]*$/.test(lower)) {
+    intent = "greeting_or_offtopic";
+  } else if (OFF_TOPIC_PATTERN.test(lower) && !DINING_PATTERN.test(lower)) {
+    intent = "greeting_or_offtopic";
+  } else if (/\bcancel\b|\bcan'?t make it\b/.test(lower) && /\b(?:booking|reservation|table|it)\b/.test(lower)) {
+    intent = "cancel_booking";
+  } else if (/\b(?:move|change|push|reschedule)\b.*\b(?:booking|reservation)\b/.test(lower)) {
+    intent = "modify_booking";
+  } else if (hasSlots || findWildcardSlots(lower).length > 0) {
+    intent = "restaurant_request";
+  }
+
+  const additionalRequests = others.map((other) => {
+    const preferences = extractPreferences(other, now);
+    return withText ? { ...preferences, text: other.trim() } : preferences;
+  });
+  return { intent, extracted, additionalRequests };
+}
+
+function validateSlot(input: { slotName: string; userReply: string; supportedChoices?: string[] }, now: Date) {
+  const { slotName, userReply } = input;
+  const none = { slot: slotName, value: null, normalized: null, confidence: 0.1 };
+
+  if ((slotName === "area" || slotName === "cuisine" || slotName === "budget") && isWildcardAnswer(userReply)) {
+    return { slot: slotName, value: ANY, normalized: ANY, confidence: 0.9 };
+  }
+
+  switch (slotName) {
+    case "area":
+    case "cuisine": {
+      const choices =
+        input.supportedChoices || (slotName === "area" ? getAvailableAreas() : getAvailableCuisines());
+      const match = matchChoice(userReply, choices);
+      return match.matched
+        ? { slot: slotName, value: userReply, normalized: match.matched, confidence: match.confidence }
+        : none;
+    }
+    case "budget": {
+      const range = parseBudgetRange(userReply);
+      return range ? { slot: slotName, value: userReply, normalized: range, confidence: 0.9 } : none;
+    }
+    case "partySize": {
+      const size = parsePartySize(userReply);
+      return size ? { slot: slotName, value: userReply, normalized: size, confidence: 0.9 } : none;
+    }
+    case "date": {
+      const date = parseDateText(userReply, now);
+      return date ? { slot: slotName, value: userReply, normalized: date.value, confidence: date.confidence } : none;
+    }
+    case "time": {
+      const time = parseTimeText(userReply) || parseTimeText(`at ${userReply.trim()}`);
+      return time ? { slot: slotName, value: userReply, normalized: time.value, confidence: time.confidence } : none;
+    }
+    case "notes":
+      return { slot: slotName, value: userReply, normalized: userReply.trim(), confidence: 0.9 };
+    default:
+      return none;
+  }
+}
+
+function normalizeToDB(input: {
+  rawArea: string | null;
+  rawCuisine: string | null;
+  supportedAreas: string[];
+  supportedCuisines: string[];
+}) {
+  const area = input.rawArea ? matchChoice(input.rawArea, input.supportedAreas) : null;
+  const cuisine = input.rawCuisine ? matchChoice(input.rawCuisine, input.supportedCuisines) : null;
+  return {
+    areaMatch: { input: input.rawArea, matched: area?.matched ?? null, confidence: area?.confidence ?? 0 },
+    cuisineMatch: { input: input.rawCuisine, matched: cuisine?.matched ?? null, confidence: cuisine?.confidence ?? 0 },
+    unavailable: { area: !!area && !area.matched, cuisine: !!cuisine && !cuisine.matched },
+  };
+}
+
+function analyzeAnswer(input: { questionType: string; userAnswer: string; availableValues?: string[] }) {
+  const { questionType, userAnswer } = input;
+  const lower = userAnswer.toLowerCase();
+
+  let choices: string[];
+  let interpretation: string | null = null;
+  let confidence = 0;
+  if (questionType === "budget") {
+    choices = ["cheap", "mid", "high"];
+    const range = parseBudgetRange(userAnswer);
+    interpretation = range ? (range === 1 ? "cheap" : range === 2 ? "mid" : "high") : null;
+    confidence = 0.8;
+  } else if (questionType === "mealTime") {
+    choices = Object.keys(MEAL_TIMES);
+    interpretation = choices.find((meal) => MEAL_TIMES[meal].some((word) => lower.includes(word))) ?? null;
+    confidence = 0.8;
+  } else {
+    choices =
+      input.availableValues ||
+      (questionType === "area" ? getAvailableAreas() : questionType === "vibe" ? getAvailableVibes() : getAvailableCuisines());
+    const match = matchChoice(userAnswer, choices);
+    interpretation = match.matched;
+    confidence = match.confidence;
+  }
+
+  if (!interpretation) {
+    return {
+      interpretation: choices[0] ?? null,
+      confidence: 0.2,
+      isOffTopic: true,
+      offTopicConfidence: 0.9,
+      message: `I didn't catch that. I can do: ${choices.slice(0, 5).join(", ")}.`,
+    };
+  }
+  return { interpretation, confidence, isOffTopic: false, offTopicConfidence: 0.1, message: "" };
+}
+
+function extractSlots(input: { userMessage: string }) {
+  const lower = input.userMessage.toLowerCase();
+  const { slotUpdates } = parseUserMessage(input.userMessage, getAvailableAreas(), getAvailableCuisines());
+  const vibe = getAvailableVibes().find((v) => lower.includes(v.toLowerCase())) ?? null;
+  const dietary = getAvailableDietary().filter((d) => lower.includes(d.toLowerCase()));
+
+  return {
+    area: typeof slotUpdates.area === "string" && slotUpdates.area !== ANY ? slotUpdates.area : null,
+    mealTime: slotUpdates.mealTime ?? null,
+    partySize: slotUpdates.partySize ?? parsePartySize(lower),
+    budget: slotUpdates.budget && slotUpdates.budget !== ANY ? slotUpdates.budget : null,
+    cravingCuisines: Array.isArray(slotUpdates.cravingCuisines) ? slotUpdates.cravingCuisines : [],
+    vibe,
+    dietary,
+  };
+}
+
+function parseDate(input: { dateString: string }, now: Date) {
+  const date = parseDateText(input.dateString, now);
+  return date ? { date: date.value, confidence: date.confidence } : { date: "null", confidence: 0.2 };
+}
+
+function understandTurn(input: {
+  userMessage: string;
+  pendingSlot: { name: string; choices?: string[] } | null;
+  supportedAreas: string[];
+  supportedCuisines: string[];
+}, now: Date, withText: boolean) {
+  const classification = classifyAndExtract(input, now, withText);
+  const normalize = (extracted: ReturnType<typeof extractPreferences>) =>
+    normalizeToDB({
+      rawArea: extracted.area.value,
+      rawCuisine: extracted.cuisine.value,
+      supportedAreas: input.supportedAreas,
+      supportedCuisines: input.supportedCuisines,
+    });
+
+  return {
+    ...classification,
+    validation: input.pendingSlot
+      ? validateSlot(
+          {
+            slotName: input.pendingSlot.name,
+            userReply: input.userMessage,
+            supportedChoices: input.pendingSlot.choices,
+          },
+          now
+        )
+      : // What the prompt asks for when nothing is pending
+        { slot: "", value: null, normalized: null, confidence: 0 },
+    normalization: normalize(classification.extracted),
+    additionalNormalizations: classification.additionalRequests.map(normalize),
+  };
+}
+
+// One rule per task, each reading that task's vars (see PromptVars in lib/prompts.ts)
+const RULES: { [K in LLMTask]: (input: PromptVars[K], now: Date, version: number) => unknown } = {
+  classify_extract: (input, now, version) => classifyAndExtract(input, now, version >= 2),
+  validate_slot: (input, now) => validateSlot(input, now),
+  normalize_db: (input) => normalizeToDB(input),
+  answer_analysis: (input) => analyzeAnswer(input),
+  slot_extraction: (input) => extractSlots(input),
+  date_parsing: (input, now) => parseDate(input, now),
+  understand_turn: (input, now, version) => understandTurn(input, now, version >= 2),
+};
+
+/**
+ * Answer an LLM request with its task's rule
+ */
+export function completeWithRules<K extends LLMTask>(request: LLMRequest<K>): unknown {
+  // Relative dates count from the prompt's day, which evaluations pin
+  const now = request.currentDate ? new Date(`${request.currentDate}T12:00:00Z`) : new Date();
+  return RULES[request.task](request.input, now, request.version);
+}
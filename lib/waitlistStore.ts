@@ -0,0 +1,56 @@
+import type { WaitlistEntry } from "@/types";
+import { getDataFile, readJsonFile, writeJsonFile } from "./fileStore";
+import { parseTimeToMinutes, formatMinutes } from "./availability";
+
+/**
+ * File-based waitlist (server-side only)
+ * Entries are queued per restaurant + date + time, oldest first.
+ * Callers hold the shared write lock (see bookingStore), so nothing here locks on its own.
+ */
+
+const WAITLIST_FILE = getDataFile(process.env.WAITLIST_FILE, "waitlist.json");
+
+type Waitlist = Record<string, WaitlistEntry[]>;
+
+/**
+ * Queue key for a slot; times are normalized so "8pm" and "20:00" share a queue
+ */
+export function getWaitlistKey(restaurantId: string, date: string, time: string): string {
+  const minutes = parseTimeToMinutes(time);
+  return `${restaurantId}|${date}|${minutes !== null ? formatMinutes(minutes) : time}`;
+}
+
+export async function readWaitlist(): Promise<Waitlist> {
+  return readJsonFile<Waitlist>(WAITLIST_FILE, {});
+}
+
+export async function writeWaitlist(waitlist: Waitlist): Promise<void> {
+  // Drop empty queues so the file doesn't grow with every slot ever waitlisted
+  const compact: Waitlist = {};
+  for (const [key, entries] of Object.entries(waitlist)) {
+    if (entries.length > 0) compact[key] = entries;
+  }
+  await writeJsonFile(WAITLIST_FILE, compact);
+}
+
+/**
+ * Append an entry to the end of its slot's queue
+ */
+export function enqueue(waitlist: Waitlist, entry: WaitlistEntry): void {
+  const key = getWaitlistKey(entry.restaurantId, entry.date, entry.time);
+  waitlist[key] = [...(waitlist[key] || []), entry];
+}
+
+/**
+ * Remove a booking's entry wherever it is queued, returning it if found
+ */
+export function dequeue(waitlist: Waitlist, bookingId: string): WaitlistEntry | null {
+  for (const [key, entries] of Object.entries(waitlist)) {
+    const entry = entries.find((e) => e.bookingId === bookingId);
+    if (entry) {
+      waitlist[key] = entries.filter((e) => e.bookingId !== bookingId);
+      return entry;
+    }
+  }
+  return null;
+}
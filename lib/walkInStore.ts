@@ -0,0 +1,149 @@
+import type { Account, WalkInIntent, WalkInStatus } from "@/types";
+import { getDataFile, readJsonFile, writeJsonFile, withWriteLock } from "./fileStore";
+import { getRestaurantById, VENUE_UTC_OFFSET_MINUTES } from "./availability";
+
+/**
+ * File-based walk-in intents and discount-code redemptions (server-side only)
+ * Rules: each account can redeem a venue's code once, and a code is valid through
+ * the end of the intended day (venue time), or for a week when the day isn't a date
+ */
+
+const WALK_INS_FILE = getDataFile(process.env.WALK_INS_FILE, "walk-ins.json");
+
+const UNDATED_VALID_DAYS = 7;
+
+const REFERENCE_CHARS = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+export interface CreateWalkInInput {
+  account: Account;
+  restaurantId: string;
+  date: string;
+}
+
+export type CreateWalkInResult =
+  | { ok: true; intent: WalkInIntent; reused: boolean; withheld?: "already_redeemed" }
+  | { ok: false; error: "unknown_restaurant" | "bookable" };
+
+export type RedeemWalkInResult =
+  | { ok: true; intent: WalkInIntent }
+  | { ok: false; error: "not_found" | "no_code" | "code_mismatch" | "already_redeemed" | "expired"; intent?: WalkInIntent };
+
+async function readAll(): Promise<WalkInIntent[]> {
+  return readJsonFile<WalkInIntent[]>(WALK_INS_FILE, []);
+}
+
+async function writeAll(intents: WalkInIntent[]): Promise<void> {
+  await writeJsonFile(WALK_INS_FILE, intents);
+}
+
+/**
+ * Derived status of an intent
+ */
+export function getWalkInStatus(intent: WalkInIntent, now = Date.now()): WalkInStatus {
+  if (intent.redeemedTs) return "redeemed";
+  if (now > intent.expiresTs) return "expired";
+  return "active";
+}
+
+/**
+ * End of the intended day in venue time, or a week from now for undated intents
+ */
+function getExpiry(date: string, now: number): number {
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return now + UNDATED_VALID_DAYS * 24 * 60 * 60000;
+
+  const [, year, month, day] = match;
+  const nextMidnightUtc = Date.UTC(parseInt(year), parseInt(month) - 1, parseInt(day) + 1);
+  return nextMidnightUtc - VENUE_UTC_OFFSET_MINUTES * 60000 - 1;
+}
+
+function generateReference(existing: WalkInIntent[]): string {
+  const taken = new Set(existing.map((i) => i.id));
+  for (;;) {
+    let reference = "WI-";
+    for (let i = 0; i < 6; i++) {
+      reference += REFERENCE_CHARS[Math.floor(Math.random() * REFERENCE_CHARS.length)];
+    }
+    if (!taken.has(reference)) return reference;
+  }
+}
+
+/**
+ * List walk-in intents, optionally for one account, newest first
+ */
+export async function listWalkIns(account?: Account): Promise<WalkInIntent[]> {
+  const intents = await readAll();
+  return intents
+    .filter((i) => !account || i.account === account)
+    .sort((a, b) => b.ts - a.ts);
+}
+
+/**
+ * Record that an account is heading to a walk-in venue
+ * An active intent for the same venue and day is reused instead of adding another one
+ */
+export async function createWalkIn(input: CreateWalkInInput): Promise<CreateWalkInResult> {
+  return withWriteLock(async () => {
+    const restaurant = getRestaurantById(input.restaurantId);
+    if (!restaurant) return { ok: false, error: "unknown_restaurant" };
+    if (restaurant.bookingAvailable) return { ok: false, error: "bookable" };
+
+    const intents = await readAll();
+    const now = Date.now();
+    const mine = intents.filter((i) => i.account === input.account && i.restaurantId === input.restaurantId);
+
+    const existing = mine.find((i) => i.date === input.date && getWalkInStatus(i, now) === "active");
+    if (existing) return { ok: true, intent: existing, reused: true };
+
+    // Single use per account: once redeemed, later visits get no code
+    const alreadyRedeemed = mine.some((i) => i.redeemedTs);
+
+    const intent: WalkInIntent = {
+      id: generateReference(intents),
+      account: input.account,
+      restaurantId: input.restaurantId,
+      date: input.date,
+      discountCode: alreadyRedeemed ? null : restaurant.discountCode || null,
+      ts: now,
+      expiresTs: getExpiry(input.date, now),
+    };
+    intents.push(intent);
+    await writeAll(intents);
+
+    return alreadyRedeemed && restaurant.discountCode
+      ? { ok: true, intent, reused: false, withheld: "already_redeemed" }
+      : { ok: true, intent, reused: false };
+  });
+}
+
+/**
+ * Mark a code as used; called by the venue with the reference and code the guest shows
+ */
+export async function redeemWalkIn(reference: string, discountCode: string): Promise<RedeemWalkInResult> {
+  return withWriteLock(async () => {
+    const intents = await readAll();
+    const index = intents.findIndex((i) => i.id === reference.trim().toUpperCase());
+    if (index === -1) return { ok: false, error: "not_found" };
+
+    const intent = intents[index];
+    if (!intent.discountCode) return { ok: false, error: "no_code", intent };
+    if (intent.discountCode.toUpperCase() !== discountCode.trim().toUpperCase()) {
+      return { ok: false, error: "code_mismatch", intent };
+    }
+
+    const now = Date.now();
+    const status = getWalkInStatus(intent, now);
+    if (status === "redeemed") return { ok: false, error: "already_redeemed", intent };
+    if (status === "expired") return { ok: false, error: "expired", intent };
+
+    // Another intent for the same venue may have been redeemed since this one was created
+    const usedElsewhere = intents.some(
+      (i) => i.id !== intent.id && i.account === intent.account && i.restaurantId === intent.restaurantId && i.redeemedTs
+    );
+    if (usedElsewhere) return { ok: false, error: "already_redeemed", intent };
+
+    intents[index] = { ...intent, redeemedTs: now };
+    await writeAll(intents);
+    return { ok: true, intent: intents[index] };
+  });
+}
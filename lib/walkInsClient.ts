@@ -0,0 +1,36 @@
+/**
+ * Client-side wrappers for walk-in API routes
+ */
+
+import type { Account, WalkInIntent, WalkInStatus } from "@/types";
+
+export async function createWalkInClient(input: {
+  account: Account;
+  restaurantId: string;
+  date: string;
+}): Promise<{ intent: WalkInIntent; withheld?: "already_redeemed" }> {
+  const response = await fetch("/api/walk-ins", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to record walk-in");
+  }
+
+  return response.json();
+}
+
+export async function listWalkInsClient(
+  account: Account
+): Promise<(WalkInIntent & { status: WalkInStatus })[]> {
+  const response = await fetch(`/api/walk-ins?account=${encodeURIComponent(account)}`);
+
+  if (!response.ok) {
+    throw new Error("Failed to list walk-ins");
+  }
+
+  const body = await response.json();
+  return body.walkIns;
+}
@@ -0,0 +1,55 @@
+import type { Wildcard } from "@/types";
+
+/**
+ * "Don't care" answers for area, cuisine and budget ("any cuisine", "budget doesn't matter", "anywhere")
+ * Kept as the value "any": the slot counts as answered and recommenders don't filter on it
+ */
+
+export const ANY: Wildcard = "any";
+
+export type WildcardSlot = "area" | "cuisine" | "budget";
+
+const SLOT_WORDS: Record<WildcardSlot, string> = {
+  area: "area|location|neighbou?rhood|part of town",
+  cuisine: "cuisine|food|kind of food|type of food",
+  budget: "budget|price|prices|cost",
+};
+
+// "anywhere", "any cuisine", "budget doesn't matter", "don't care about the price", "no budget preference"
+function slotPattern(slot: WildcardSlot): RegExp {
+  const words = `(?:${SLOT_WORDS[slot]})`;
+  const special = slot === "area" ? "|\\banywhere\\b" : slot === "budget" ? "|\\bmoney is no (?:object|issue)\\b" : "";
+  return new RegExp(
+    `\\bany ${words}\\b|\\b${words} (?:doesn'?t|does not|don'?t|do not) matter\\b|\\b${words} (?:is|are) fine\\b` +
+      `|\\bdon'?t (?:care|mind) (?:about |what |which )?(?:the )?${words}\\b|\\bno ${words} preference\\b|\\bno preference on ${words}\\b${special}`
+  );
+}
+
+const SLOT_PATTERNS: Record<WildcardSlot, RegExp> = {
+  area: slotPattern("area"),
+  cuisine: slotPattern("cuisine"),
+  budget: slotPattern("budget"),
+};
+
+// A whole reply that says "I don't mind", e.g. to "Which area?"
+const ANSWER_PATTERN =
+  /^(?:any|anything|anywhere|any is fine|whatever|either|up to you|you choose|you pick|surprise me|no preference|not fussed|(?:i )?(?:don'?t|do not) (?:care|mind)|(?:it )?(?:doesn'?t|does not) matter)[.!]?$/;
+
+export function isWildcard(value: unknown): value is Wildcard {
+  return value === ANY;
+}
+
+/**
+ * Whether a reply to a slot question means "any"
+ */
+export function isWildcardAnswer(text: string): boolean {
+  return ANSWER_PATTERN.test(text.toLowerCase().trim());
+}
+
+/**
+ * Slots a message explicitly doesn't care about, e.g. "any cuisine in Downtown" -> ["cuisine"]
+ */
+export function findWildcardSlots(text: string): WildcardSlot[] {
+  const lower = text.toLowerCase();
+  return (Object.keys(SLOT_PATTERNS) as WildcardSlot[]).filter((slot) => SLOT_PATTERNS[slot].test(lower));
+}
@@ -0,0 +1,97 @@
+import { mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+
+/**
+ * Run a booking conversation through the dialogue pipeline on the stub provider: npm run check:stub
+ * Every turn goes through reduceTurn with the server deps (understand_turn, availability, the booking store),
+ * so it checks that the app works offline end to end. Stores write to a temporary directory
+ * Exits with 1 when a turn doesn't do what it should
+ */
+
+const STORE_FILES: Record<string, string> = {
+  BOOKINGS_FILE: "bookings.json",
+  WAITLIST_FILE: "waitlist.json",
+  WALK_INS_FILE: "walk-ins.json",
+  INBOX_FILE: "inbox.json",
+  ALIASES_FILE: "aliases.json",
+  CONVERSATIONS_FILE: "conversations.json",
+  PROMPT_DECISIONS_FILE: "prompt-decisions.json",
+};
+
+async function main(): Promise<number> {
+  const dataDir = mkdtempSync(path.join(os.tmpdir(), "vida-check-"));
+  // Set before the stores load, since they resolve their files on import
+  Object.keys(STORE_FILES).forEach((name) => {
+    process.env[name] = path.join(dataDir, STORE_FILES[name]);
+  });
+  process.env.LLM_PROVIDER = "stub";
+  process.env.LLM_CACHE = "off";
+  delete process.env.NLU_MODE;
+
+  try {
+    const { reduceTurn } = await import("../lib/newConversation");
+    const { createEmptyDialogueState } = await import("../lib/conversationStore");
+    const { createServerDialogueDeps } = await import("../lib/serverDialogueDeps");
+    const { listBookings } = await import("../lib/bookingStore");
+
+    const deps = createServerDialogueDeps("danny");
+    const failures: string[] = [];
+    const check = (label: string, pass: boolean, detail: string) => {
+      console.log(`${pass ? "ok  " : "FAIL"} ${label}${pass ? "" : `: ${detail}`}`);
+      if (!pass) failures.push(label);
+    };
+
+    let state = createEmptyDialogueState();
+    const say = async (text: string) => {
+      const result = await reduceTurn(state, text, deps);
+      state = result.state;
+      return { ...result, reply: result.messages[result.messages.length - 1].text };
+    };
+
+    const request = await say("romantic italian in Downtown tomorrow at 8pm for 2, mid budget");
+    const { area, cuisine, budget, partySize, time } = state.request;
+    check(
+      "understands a full request",
+      area === "Downtown" &&
+        cuisine === "Italian" &&
+        typeof budget === "object" &&
+        budget?.range === 2 &&
+        partySize === 2 &&
+        time === "20:00",
+      JSON.stringify(state.request)
+    );
+    check(
+      "recommends restaurants",
+      state.mode === "recommending" && request.effects.some((effect) => effect.type === "recommended"),
+      request.reply
+    );
+
+    const pick = await say("1");
+    check("asks to confirm the pick", state.selectedRestaurantId !== null, pick.reply);
+
+    const confirm = await say("yes");
+    const booked = confirm.effects.find((effect) => effect.type === "booked");
+    const saved = await listBookings("danny");
+    check(
+      "books the table",
+      booked?.type === "booked" && booked.bookings.length === 1 && saved.length === 1,
+      confirm.reply
+    );
+
+    console.log(failures.length > 0 ? `${failures.length} check(s) failed` : "All checks passed");
+    return failures.length > 0 ? 1 : 0;
+  } finally {
+    rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error("Stub check error:", error);
+    process.exitCode = 1;
+  }
+);
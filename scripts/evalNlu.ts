@@ -0,0 +1,84 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import {
+  diffNluReports,
+  formatNluReport,
+  runNluEval,
+  type NluEvalReport,
+  type NluFixtureSet,
+  type NluPrompt,
+} from "../lib/nluEval";
+
+/**
+ * Score the NLU prompts against the golden utterances: npm run eval:nlu -- [options]
+ *   --prompt classify_extract|understand_turn   prompt to evaluate (default classify_extract)
+ *   --fixtures <file>                           default evals/nlu/fixtures.json
+ *   --baseline <file>                           report to compare with (default evals/nlu/stub-baseline.json)
+ *   --save-baseline                             write this run's report as the baseline
+ * Answers come from the recordings (LLM_RECORDINGS_FILE, default evals/nlu/stub-recordings.json) unless LLM_PROVIDER says otherwise
+ * The committed recordings and baseline are the stub's rules, so by default this is a regression suite for lib/stubLLM.ts;
+ * record a model into other files to score the prompt itself (see the README)
+ * Exits with 1 when a fixture got no answer or a field that passed in the baseline fails now;
+ * a baseline is only saved when every fixture got an answer
+ */
+
+const EVAL_DIR = path.join(process.cwd(), "evals", "nlu");
+const PROMPTS: NluPrompt[] = ["classify_extract", "understand_turn"];
+
+function getArg(args: string[], name: string): string | undefined {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const prompt = (getArg(args, "--prompt") ?? "classify_extract") as NluPrompt;
+  if (!PROMPTS.includes(prompt)) {
+    console.error(`Unknown prompt "${prompt}" (expected ${PROMPTS.join(" or ")})`);
+    return 2;
+  }
+  const fixturesFile = getArg(args, "--fixtures") ?? path.join(EVAL_DIR, "fixtures.json");
+  const baselineFile = getArg(args, "--baseline") ?? path.join(EVAL_DIR, "stub-baseline.json");
+
+  // Replay recorded answers by default, and always ask the provider rather than a cache
+  process.env.LLM_PROVIDER ??= "recorded";
+  process.env.LLM_RECORDINGS_FILE ??= path.join(EVAL_DIR, "stub-recordings.json");
+  process.env.LLM_CACHE = "off";
+  // Keep the per-call log lines out of the report
+  process.env.LLM_CALL_LOG = "off";
+
+  const set = JSON.parse(readFileSync(fixturesFile, "utf-8")) as NluFixtureSet;
+  const report = await runNluEval(set, prompt);
+
+  const baseline = existsSync(baselineFile) ? (JSON.parse(readFileSync(baselineFile, "utf-8")) as NluEvalReport) : null;
+  // A baseline for the other prompt says nothing about this one
+  const diff = baseline && baseline.prompt === report.prompt ? diffNluReports(baseline, report) : null;
+  console.log(formatNluReport(report, diff));
+
+  const errors = report.results.filter((result) => result.error).length;
+  if (errors > 0) {
+    console.error(`${errors} fixture(s) got no answer`);
+  }
+  if (args.includes("--save-baseline")) {
+    // A fixture without an answer would count as failing and could never regress
+    if (errors > 0) {
+      console.error("Not saving the baseline");
+      return 1;
+    }
+    mkdirSync(path.dirname(baselineFile), { recursive: true });
+    writeFileSync(baselineFile, JSON.stringify(report, null, 2) + "\n");
+    console.log(`Saved the baseline to ${baselineFile}`);
+    return 0;
+  }
+  return errors > 0 || (diff && diff.regressions.length > 0) ? 1 : 0;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error("NLU evaluation error:", error);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,33 @@
+import { getFutureDate } from "./setup";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createBooking, cancelBooking, getBooking } from "../lib/bookingStore";
+
+// Al Fanar: 60 seats, 90-minute tables, waitlist of 10 seats
+const RESTAURANT_ID = "66054abe14c1398684ac4b1a";
+
+async function book(partySize: number, time: string, date: string) {
+  const result = await createBooking({ account: "danny", restaurantId: RESTAURANT_ID, date, time, partySize });
+  assert.ok(result.ok);
+  return result.booking;
+}
+
+test("a cancelled table goes to every waitlisted party that now fits, nearby times included", async () => {
+  const date = getFutureDate();
+  await book(20, "20:00", date);
+  await book(20, "20:00", date);
+  await book(14, "20:00", date);
+  const six = await book(6, "20:00", date);
+
+  const first = await book(2, "20:00", date);
+  const second = await book(2, "20:00", date);
+  const nearby = await book(2, "20:30", date);
+  [first, second, nearby].forEach((booking) => assert.equal(booking.status, "waitlisted"));
+
+  await cancelBooking(six.id);
+
+  for (const booking of [first, second, nearby]) {
+    const after = await getBooking(booking.id);
+    assert.equal(after?.status, "confirmed", `${booking.time} party of ${booking.partySize}`);
+  }
+});
@@ -0,0 +1,39 @@
+import "./setup";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createTurnStream } from "../lib/chatStream";
+import { createEmptyDialogueState } from "../lib/conversationStore";
+
+interface StreamEvent {
+  event: string;
+  data: { text?: string; message?: { text: string } };
+}
+
+async function readEvents(stream: ReadableStream<Uint8Array>): Promise<StreamEvent[]> {
+  const raw = await new Response(stream).text();
+  return raw
+    .split("\n\n")
+    .filter(Boolean)
+    .map((block) => ({
+      event: block.match(/^event: (.+)$/m)?.[1] ?? "",
+      data: JSON.parse(block.match(/^data: (.+)$/m)?.[1] ?? "null"),
+    }));
+}
+
+test("the reply arrives in several deltas before done", async () => {
+  const events = await readEvents(
+    createTurnStream({
+      account: "danny",
+      text: "romantic italian in Downtown tomorrow at 8pm for 2, mid budget",
+      state: createEmptyDialogueState(),
+    })
+  );
+  const names = events.map((e) => e.event);
+  const deltas = events.filter((e) => e.event === "delta");
+
+  assert.ok(names.includes("typing"));
+  assert.ok(deltas.length > 1, `got ${deltas.length} delta(s)`);
+  assert.equal(names[names.length - 1], "done");
+  assert.ok(names.lastIndexOf("delta") < names.indexOf("done"));
+  assert.equal(deltas.map((e) => e.data.text).join(""), events[events.length - 1].data.message?.text);
+});
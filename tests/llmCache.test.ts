@@ -0,0 +1,32 @@
+import "./setup";
+import { test, mock } from "node:test";
+import assert from "node:assert/strict";
+import { understandTurn } from "../lib/gptPrompts";
+import { createEmptyRequest } from "../lib/conversationStore";
+
+// Log each provider call, so the test can count the ones the cache didn't answer
+delete process.env.LLM_CALL_LOG;
+
+test("understand_turn answers the same reply from the cache on a later turn", async () => {
+  const log = mock.method(console, "log", () => {});
+  const countCalls = () => log.mock.calls.filter((call) => String(call.arguments[0]).startsWith("LLM understand_turn")).length;
+  const input = {
+    userMessage: "mid please",
+    pendingSlot: { name: "budget" as const },
+    supportedAreas: ["Downtown", "Dubai Marina"],
+    supportedCuisines: ["Italian", "Japanese"],
+  };
+
+  try {
+    const first = await understandTurn({ ...input, currentRequest: { ...createEmptyRequest(), area: "Downtown" } });
+    // A later turn: the request has moved on, the reply and the question haven't
+    const second = await understandTurn({
+      ...input,
+      currentRequest: { ...createEmptyRequest(), area: "Downtown", cuisine: "Italian", partySize: 2 },
+    });
+    assert.equal(countCalls(), 1);
+    assert.deepEqual(second, first);
+  } finally {
+    log.mock.restore();
+  }
+});
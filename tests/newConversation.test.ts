@@ -0,0 +1,56 @@
+import "./setup";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { reduceTurn } from "../lib/newConversation";
+import { createEmptyDialogueState } from "../lib/conversationStore";
+import { createServerDialogueDeps } from "../lib/serverDialogueDeps";
+import type { Account, DialogueState } from "../types";
+
+const REQUEST = "italian in Downtown tomorrow at 8pm for 2, mid budget";
+
+// Say each message in turn and return the result of the last one
+async function converse(account: Account, texts: string[]) {
+  const deps = createServerDialogueDeps(account);
+  let state: DialogueState = createEmptyDialogueState();
+  let result: Awaited<ReturnType<typeof reduceTurn>> | undefined;
+  for (const text of texts) {
+    result = await reduceTurn(state, text, deps);
+    state = result.state;
+  }
+  assert.ok(result);
+  return result;
+}
+
+function bookedNotes(result: Awaited<ReturnType<typeof reduceTurn>>): string | undefined | null {
+  const booked = result.effects.find((effect) => effect.type === "booked");
+  assert.ok(booked && booked.type === "booked", result.messages.map((message) => message.text).join(" / "));
+  return booked.bookings[0].notes;
+}
+
+test("a note that mentions 'rather' is saved, not read as a correction", async () => {
+  const result = await converse("danny", [REQUEST, "1", "I would rather sit by the window"]);
+  assert.equal(bookedNotes(result), "I would rather sit by the window");
+});
+
+test("a note that changes a slot is applied as a correction", async () => {
+  const result = await converse("raphael", [REQUEST, "1", "actually make it 4 people"]);
+  assert.equal(result.state.request.partySize, 4);
+  assert.equal(result.state.selectedRestaurantId, null);
+  assert.equal(result.effects.some((effect) => effect.type === "booked"), false);
+});
+
+for (const answer of ["yes", "ok", "no thanks"]) {
+  test(`'${answer}' to the notes question books without a note`, async () => {
+    const result = await converse("raphael", [REQUEST, "1", answer]);
+    assert.ok(!bookedNotes(result));
+  });
+}
+
+test("a queued request keeps the meal the user asked for", async () => {
+  const result = await converse("danny", [
+    "Italian in Downtown for 4 tomorrow at 8, and also something for brunch Sunday",
+  ]);
+  const [queued] = result.state.queue?.pending ?? [];
+  assert.equal(queued?.description, "something for brunch Sunday");
+  assert.match(result.messages.map((message) => message.text).join("\n"), /brunch/);
+});
@@ -0,0 +1,55 @@
+import "./setup";
+import { rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { createHash } from "crypto";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getPrompt, runPrompt } from "../lib/promptRegistry";
+import { PROMPTS, type PromptVars } from "../lib/prompts";
+import { completeWithRules } from "../lib/stubLLM";
+import { validateJsonSchema } from "../lib/jsonSchema";
+
+const CURRENT_DATE = "2026-01-05";
+
+test("the stub's answers to every prompt fixture match the prompt's schema", () => {
+  PROMPTS.forEach((prompt) => {
+    prompt.fixtures.forEach((fixture) => {
+      const schema = prompt.schema(fixture.vars);
+      const answer = completeWithRules({
+        task: prompt.id,
+        version: prompt.version,
+        messages: prompt.messages(fixture.vars, CURRENT_DATE),
+        schema,
+        input: fixture.vars as PromptVars[typeof prompt.id],
+        currentDate: CURRENT_DATE,
+      });
+      assert.deepEqual(validateJsonSchema(answer, schema), [], `${prompt.id} v${prompt.version} ${fixture.name}`);
+    });
+  });
+});
+
+test("an answer that doesn't match the schema fails with the prompt and the fields", async () => {
+  // A recording of a malformed classify_extract answer, replayed in place of the stub
+  const vars = { userMessage: "italian for 2" };
+  const prompt = getPrompt("classify_extract");
+  const key = createHash("sha256")
+    .update(JSON.stringify([prompt.id, prompt.messages(vars, CURRENT_DATE), prompt.schema(vars)]))
+    .digest("hex");
+  const file = path.join(os.tmpdir(), `vida-recordings-${process.pid}.json`);
+  const data = { intent: "booking", extracted: {}, additionalRequests: [] };
+  writeFileSync(file, JSON.stringify({ [key]: { task: prompt.id, input: vars, data, model: "broken" } }));
+  process.env.LLM_PROVIDER = "recorded";
+  process.env.LLM_RECORDINGS_FILE = file;
+
+  try {
+    await assert.rejects(runPrompt("classify_extract", vars, { currentDate: CURRENT_DATE, record: false }), (error: Error) => {
+      assert.match(error.message, new RegExp(`^classify_extract v${prompt.version} answer from broken`));
+      assert.match(error.message, /intent: "booking" is not one of/);
+      assert.match(error.message, /extracted\.area: missing/);
+      return true;
+    });
+  } finally {
+    rmSync(file, { force: true });
+  }
+});
@@ -0,0 +1,16 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseRecurrence } from "../lib/recurrence";
+
+test("weeks of a monthly rule count months, not occurrences", () => {
+  const rule = parseRecurrence("first friday of every month for 8 weeks");
+  assert.equal(rule?.freq, "MONTHLY");
+  assert.equal(rule?.count, 2);
+});
+
+test("counts in words from one to twelve", () => {
+  assert.equal(parseRecurrence("every friday for seven weeks")?.count, 7);
+  assert.equal(parseRecurrence("every other saturday for eleven weeks")?.count, 6);
+  assert.equal(parseRecurrence("every monday, nine times")?.count, 9);
+  assert.equal(parseRecurrence("last sunday of every month for one month")?.count, 1);
+});
@@ -0,0 +1,36 @@
+import { mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { getVenueToday } from "../lib/availability";
+
+/**
+ * Import first in every test file: points the file stores at a temporary directory
+ * and the LLM at the stub, before any store or provider loads
+ */
+
+const dataDir = mkdtempSync(path.join(os.tmpdir(), "vida-test-"));
+
+[
+  ["BOOKINGS_FILE", "bookings.json"],
+  ["WAITLIST_FILE", "waitlist.json"],
+  ["WALK_INS_FILE", "walk-ins.json"],
+  ["INBOX_FILE", "inbox.json"],
+  ["ALIASES_FILE", "aliases.json"],
+  ["CONVERSATIONS_FILE", "conversations.json"],
+  ["PROMPT_DECISIONS_FILE", "prompt-decisions.json"],
+].forEach(([name, file]) => {
+  process.env[name] = path.join(dataDir, file);
+});
+process.env.LLM_PROVIDER = "stub";
+process.env.LLM_CALL_LOG = "off";
+delete process.env.LLM_CACHE_FILE;
+delete process.env.NLU_MODE;
+
+process.on("exit", () => rmSync(dataDir, { recursive: true, force: true }));
+
+/**
+ * A date some days after today (venue time), so bookings aren't in the past
+ */
+export function getFutureDate(days = 7): string {
+  return new Date(Date.parse(`${getVenueToday()}T00:00:00Z`) + days * 86400000).toISOString().split("T")[0];
+}
@@ -22,15 +22,20 @@ export interface Restaurant {
   bookingAvailable: boolean;
   /** For walk-in-only venues: code to present at the door for a discount */
   discountCode?: string;
+  /** Largest single party the venue seats; defaults by price tier (see lib/availability.ts) */
+  maxPartySize?: number;
 }
 
 // Slots for conversation state
+// "Don't care" answer for area, cuisine or budget (see lib/wildcard.ts)
+export type Wildcard = "any";
+
 export interface Slots {
   mealTime?: "breakfast" | "lunch" | "dinner" | "coffee" | "drinks" | "late-night";
-  area?: string;
+  area?: string | Wildcard;
   partySize?: number;
-  budget?: "cheap" | "mid" | "high";
-  cravingCuisines?: string[];
+  budget?: "cheap" | "mid" | "high" | Wildcard;
+  cravingCuisines?: string[] | Wildcard;
   vibe?: "romantic" | "lively" | "quiet" | "outdoor" | "family" | "business";
   dietary?: string[];
   avoid?: {
@@ -48,6 +53,18 @@ export interface BookingDraft {
   notes?: string;
 }
 
+// Repeat pattern for recurring bookings, modelled on iCalendar RRULE
+export interface RecurrenceRule {
+  freq: "WEEKLY" | "MONTHLY";
+  /** 1 = every week/month, 2 = every other */
+  interval: number;
+  byDay: "MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU";
+  /** MONTHLY only: which occurrence of byDay in the month (1-5, or -1 for the last) */
+  bySetPos?: number;
+  /** Number of occurrences to book */
+  count: number;
+}
+
 // User profile for personalization
 export interface Profile {
   cuisinesLiked: Record<string, number>;
@@ -60,38 +77,202 @@ export interface Profile {
 // Booking history entry
 export interface Booking {
   id: string;
+  account: Account;
   restaurantId: string;
   date: string;
   time: string;
   partySize: number;
   notes?: string;
   ts: number;
+  /** Code shown to the user, e.g. BK-D261201-003K (only for confirmed bookings) */
+  confirmationId?: string;
+  /** Codes replaced by later modifications, oldest first */
+  previousConfirmationIds?: string[];
+  /** Missing on bookings saved before availability existed; treat as "confirmed" */
+  status?: BookingStatus;
+  /** Last cancel/modify time */
+  updatedTs?: number;
+  /** Shared by every occurrence of a recurring booking */
+  seriesId?: string;
+  recurrence?: RecurrenceRule;
 }
 
-// Conversation state
-export type ConversationState =
-  | "WELCOME"
-  | "DISCOVERY"
-  | "RECOMMEND"
-  | "BOOKING_COLLECT"
-  | "BOOKING_CONFIRM"
-  | "REFINE";
+export type BookingStatus = "confirmed" | "waitlisted" | "cancelled";
+
+// Seating inventory used by the availability model
+export interface RestaurantInventory {
+  /** Total seats that can be booked at the same time */
+  capacity: number;
+  /** Largest single party the venue takes */
+  maxPartySize: number;
+  /** Opening hours in HH:mm (close may be past midnight, e.g. "01:00") */
+  openingHours: { open: string; close: string };
+  /** Spacing between bookable start times, in minutes */
+  slotMinutes: number;
+  /** How long a table stays occupied, in minutes */
+  turnMinutes: number;
+  /** Seats that may be waitlisted per slot once it is full */
+  waitlistSeats: number;
+}
 
 // New flow types
-export type RequestMode = "collecting" | "recommending" | "confirming";
+export type RequestMode = "collecting" | "recommending" | "confirming" | "managing" | "resuming";
+
+// Chat flows: each one is a list of dialogue stages (see lib/dialoguePipeline.ts), chosen per account
+export type ConversationFlow = "guided" | "discovery" | "express";
+
+export type DialogueStageName =
+  | "manage"
+  | "select"
+  | "clarify"
+  | "notes"
+  | "diversify"
+  | "refine"
+  | "classify"
+  | "validate"
+  | "normalize"
+  | "avoid"
+  | "plan"
+  | "respond";
+
+// Cancel/modify flow for an existing booking
+export interface BookingManagementState {
+  action: "cancel" | "modify";
+  /** Upcoming booking IDs offered to pick from, in display order */
+  candidateIds: string[];
+  /** Booking being managed once picked */
+  bookingId: string | null;
+  /** Requested changes for "modify" (may be collected before a booking is picked) */
+  changes: { date?: string; time?: string; partySize?: number };
+  /** Waiting for a yes/no before cancelling */
+  awaitingConfirm: boolean;
+}
 
 export type PendingSlot = "area" | "cuisine" | "budget" | "date" | "time" | "partySize" | null;
 
 export interface ActiveRequest {
-  area: string | null;
-  cuisine: string | null;
-  budget: { range: 1 | 2 | 3 | 4; label: string } | null;
+  area: string | Wildcard | null;
+  cuisine: string | Wildcard | null;
+  budget: { range: 1 | 2 | 3 | 4; label: string } | Wildcard | null;
   partySize: number | null;
   date: string | null; // yyyy-mm-dd if possible else natural text
   time: string | null; // HH:mm if possible else natural text
   notes: string | null;
+  /** Set when the user asked for a repeating booking; date is then the first occurrence */
+  recurrence?: RecurrenceRule | null;
+  /** Cuisines or vibes to leave out, e.g. "no sushi" */
+  avoid?: string[];
+  /** Restaurants already offered; "more" pushes them down the list */
+  seenRestaurantIds?: string[];
+  /** The user's words for a request queued from a longer message, e.g. "something for brunch Sunday" */
+  description?: string;
+}
+
+// Everything the chat flow remembers between turns (see lib/conversationStore.ts for where it's kept)
+export interface DialogueState {
+  request: ActiveRequest;
+  mode: RequestMode;
+  pendingSlot: PendingSlot;
+  selectedRestaurantId: string | null;
+  management: BookingManagementState | null;
+  flow: ConversationFlow;
+  history: Message[];
+  /** Question waiting on "did you mean X or Y?" */
+  clarification?: Clarification | null;
+  /** Further requests from the same message, handled after the current one */
+  queue?: RequestQueue | null;
+  /** Earlier turns' dialogue fields for "undo", most recent last */
+  undo?: DialogueSnapshot[];
+}
+
+// An area or cuisine we weren't sure about: the user picks one of the options
+export interface Clarification {
+  slot: "area" | "cuisine";
+  /** What the user said; their pick is remembered as an alias for it */
+  input: string;
+  options: string[];
+}
+
+// "Did you mean" answer remembered for later, e.g. "wasl" → "Al Wasl"
+export interface SlotAlias {
+  slot: Clarification["slot"];
+  /** Lowercased, trimmed input */
+  input: string;
+  value: string;
+  ts: number;
+}
+
+// Which prompt version produced a model answer, kept to compare versions served side by side
+export interface PromptDecision {
+  /** Prompt id, e.g. "validate_slot" */
+  prompt: string;
+  version: number;
+  model: string;
+  /** sha256 of the prompt's vars, so repeated inputs can be told apart without storing them */
+  inputHash: string;
+  output: unknown;
+  ts: number;
+}
+
+// Several dining requests in one message are handled one after another
+export interface RequestQueue {
+  /** Still to do, next first */
+  pending: ActiveRequest[];
+  /** One line per request already handled, for the summary at the end */
+  outcomes: string[];
 }
 
+// What "undo" restores
+export type DialogueSnapshot = Pick<
+  DialogueState,
+  "request" | "mode" | "pendingSlot" | "selectedRestaurantId" | "management" | "clarification" | "queue"
+>;
+
+// Dietary needs of one guest in a group booking (guests are numbered from 1)
+export interface GuestRequirement {
+  guest: number;
+  needs: string[];
+}
+
+// Per-guest requirements collected for a large party, stored in Booking.notes
+export interface GroupRequirements {
+  partySize: number;
+  /** Only guests with needs, ordered by guest number */
+  guests: GuestRequirement[];
+  /** Anything that isn't a dietary need */
+  note: string | null;
+}
+
+// A waitlisted party, queued per restaurant + date + time
+export interface WaitlistEntry {
+  bookingId: string;
+  account: Account;
+  restaurantId: string;
+  date: string;
+  time: string;
+  partySize: number;
+  /** The chat request the party was waitlisted from */
+  request: ActiveRequest;
+  ts: number;
+}
+
+// Walk-in visit announced in chat, for venues that don't take bookings
+export interface WalkInIntent {
+  /** Reference shown next to the discount code, e.g. WI-7K3D9Q */
+  id: string;
+  account: Account;
+  restaurantId: string;
+  date: string;
+  /** Discount code shown to the guest; null if the venue has none or it was already used */
+  discountCode: string | null;
+  ts: number;
+  /** The code can't be redeemed after this */
+  expiresTs: number;
+  redeemedTs?: number;
+}
+
+export type WalkInStatus = "active" | "redeemed" | "expired";
+
 // Restaurant recommendation with reasons
 export interface RestaurantRecommendation {
   restaurant: Restaurant;